@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  convertToModelMessages,
+  stepCountIs,
+  streamText,
+  validateUIMessages,
+  type LanguageModel,
+  type ModelMessage,
+} from "ai";
+import { getChatModel } from "@/lib/chat-model";
+import { getConnectionTools, getSystemPrompt } from "@/lib/chat-tools";
+
+// Tool calls per request before the model has to answer
+const MAX_STEPS = 5;
+
+/**
+ * POST /api/chat
+ * Stream the model's reply to `{ messages }` (UI messages) as a UI message
+ * stream. The model gets tools for the session's connected accounts whose
+ * granted scopes cover them.
+ */
+export async function POST(request: NextRequest) {
+  let model: LanguageModel | undefined;
+  try {
+    model = getChatModel();
+  } catch (error) {
+    console.error("Error loading the chat model:", error);
+    return NextResponse.json(
+      { error: "Chat is misconfigured. Check CHAT_MODEL." },
+      { status: 503 }
+    );
+  }
+  if (!model) {
+    return NextResponse.json(
+      { error: "Chat is not configured. Set CHAT_MODEL." },
+      { status: 503 }
+    );
+  }
+
+  let messages: ModelMessage[];
+  try {
+    const body = await request.json();
+    messages = convertToModelMessages(
+      await validateUIMessages({ messages: body?.messages })
+    );
+  } catch {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const { tools, availability } = await getConnectionTools();
+
+  const result = streamText({
+    model,
+    system: getSystemPrompt(availability),
+    messages,
+    tools,
+    stopWhen: stepCountIs(MAX_STEPS),
+    onError: ({ error }) => console.error("Error streaming chat:", error),
+  });
+
+  // Errors can carry provider responses, so the client only gets a
+  // generic message for failed tools and streams
+  return result.toUIMessageStreamResponse({
+    onError: (error) => {
+      console.error("Chat error sent to the client:", error);
+      return "An error occurred.";
+    },
+  });
+}
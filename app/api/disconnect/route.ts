@@ -4,77 +4,96 @@ import { cookies } from "next/headers";
 import * as oauth from "oauth4webapi";
 import {
   getAuthorizationServer,
-  getProviderConfig,
   getClient,
+  isEnabledProvider,
+  type Provider,
 } from "@/lib/oauth-config";
+import { unlinkGitHubAccount } from "@/lib/github-webhooks";
+import { getRequestOptions } from "@/lib/oauth-quirks";
+import { getSessionId } from "@/lib/session";
+import { getTokenStore } from "@/lib/token-store";
 
+/**
+ * Revoke the access token at the provider, when it has a revocation
+ * endpoint. Best-effort: failures are logged and the connection is
+ * removed anyway.
+ */
+async function revokeAccessToken(
+  provider: Provider,
+  accessToken: string
+): Promise<void> {
+  try {
+    const _as = await getAuthorizationServer(provider);
+    if (!_as.revocation_endpoint) {
+      return;
+    }
+
+    const client = getClient(provider);
+    const clientSecret = String(client.client_secret);
+    const response = await oauth.revocationRequest(
+      _as,
+      client,
+      client.token_endpoint_auth_method === "client_secret_post"
+        ? oauth.ClientSecretPost(clientSecret)
+        : oauth.ClientSecretBasic(clientSecret),
+      accessToken,
+      getRequestOptions(provider, _as, "revocation")
+    );
+
+    const err = await oauth.processRevocationResponse(response);
+    if (err) {
+      console.error(`Error revoking ${provider} token:`, err);
+    }
+  } catch (error) {
+    console.error(`Error revoking ${provider} token:`, error);
+  }
+}
+
+/**
+ * POST /api/disconnect
+ * Revoke and remove one account's connection: `{ provider, accountId? }`.
+ * Disconnects the provider's default account when accountId is omitted.
+ */
 export async function POST(request: NextRequest) {
-  const { provider } = await request.json();
-  const providerConfig = getProviderConfig(provider);
-  const _as = getAuthorizationServer(provider);
-  const client = getClient(provider);
-  const clientSecret = String(client.client_secret);
+  try {
+    const { provider, accountId } = await request.json();
 
-  const cookieStore = await cookies();
+    // Validate provider
+    if (typeof provider !== "string" || !isEnabledProvider(provider)) {
+      return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+    }
 
-  const accessToken = cookieStore.get(
-    providerConfig.cookiePrefix + "access_token"
-  )?.value;
+    const cookieStore = await cookies();
 
-  if (!accessToken) {
-    return NextResponse.json(
-      { error: "No access token found for provider" },
-      { status: 400 }
-    );
-  }
+    const sessionId = getSessionId(cookieStore);
+    const connection = sessionId
+      ? await getTokenStore().get(sessionId, provider, accountId)
+      : undefined;
 
-  const response = await oauth.revocationRequest(
-    _as,
-    client,
-    client.token_endpoint_auth_method === "client_secret_post"
-      ? oauth.ClientSecretPost(clientSecret)
-      : oauth.ClientSecretBasic(clientSecret),
-    accessToken,
-    {
-      [oauth.customFetch](url, options) {
-        console.log("[revocationRequest]:\n", url, options);
-        console.log(
-          `Basic ${btoa(`${client.client_id}:${client.client_secret}`)}`
-        );
-        return fetch(url, {
-          ...options,
-          headers: {
-            // RFC 6749 Section 2.3.1 states that the clientID and password
-            // are to be encoded via "application/x-www-form-urlencoded".
-            // Supabase doesn't seem to comply with that, so base64 encode the plan strings instead.
-            ...(provider === "supabase"
-              ? {
-                  Accept: "application/json",
-                  Authorization: `Basic ${btoa(
-                    `${client.client_id}:${client.client_secret}`
-                  )}`,
-                  "Content-Type": "application/x-www-form-urlencoded",
-                }
-              : {
-                  ...options?.headers,
-                }),
-          },
-        });
-      },
+    if (!sessionId || !connection) {
+      return NextResponse.json(
+        { error: "No access token found for provider" },
+        { status: 400 }
+      );
     }
-  );
 
-  const err = await oauth.processRevocationResponse(response);
+    await revokeAccessToken(provider, connection.accessToken);
+    await getTokenStore().delete(sessionId, provider, connection.accountId);
 
-  if (err) {
-    console.error("Error revoking token:", err);
+    // Webhooks about the account are no longer matched to this connection
+    if (provider === "github" || provider === "github-app") {
+      await unlinkGitHubAccount(sessionId, provider, connection.accountId);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+    console.error("Error disconnecting:", error);
     return NextResponse.json(
-      { error: "Failed to revoke token" },
+      { error: "Failed to disconnect" },
       { status: 500 }
     );
   }
-  cookieStore.delete(providerConfig.cookiePrefix + "access_token");
-  cookieStore.delete(providerConfig.cookiePrefix + "refresh_token");
-
-  return NextResponse.json({ success: true });
 }
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getValidConnection } from "@/lib/access-token";
+import {
+  findUserInstallation,
+  listInstallationRepositories,
+} from "@/lib/github-app";
+import {
+  errorResponse,
+  getPageParams,
+  notConnectedResponse,
+  pageResponse,
+} from "../../../../github/response";
+
+/**
+ * GET /api/integrations/github-app/installations/[installation]/repos
+ * List the repositories the app can act on in an installation, using an
+ * installation access token. The authenticated user must have access to
+ * the installation.
+ * Supports `?account=<id>`, `?page=` and `?per_page=`
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ installation: string }> }
+) {
+  if (!isEnabledProvider("github-app")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  const installationId = Number((await params).installation);
+  if (!Number.isInteger(installationId)) {
+    return NextResponse.json(
+      { error: "Invalid installation" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { accountId, options } = getPageParams(request);
+    const connection = await getValidConnection("github-app", accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    if (!(await findUserInstallation(connection.accessToken, installationId))) {
+      return NextResponse.json(
+        { error: "Installation not found" },
+        { status: 404 }
+      );
+    }
+
+    const page = await listInstallationRepositories(installationId, options);
+    return pageResponse(request, page);
+  } catch (error) {
+    return errorResponse(error, "github-app");
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getValidConnection } from "@/lib/access-token";
+import { listUserInstallations } from "@/lib/github-app";
+import {
+  errorResponse,
+  getPageParams,
+  notConnectedResponse,
+  pageResponse,
+} from "../../github/response";
+
+/**
+ * GET /api/integrations/github-app/installations
+ * List the GitHub App's installations the authenticated user can access
+ * Supports `?account=<id>`, `?page=` and `?per_page=`
+ */
+export async function GET(request: NextRequest) {
+  if (!isEnabledProvider("github-app")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { accountId, options } = getPageParams(request);
+    const connection = await getValidConnection("github-app", accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const page = await listUserInstallations(connection.accessToken, options);
+    return pageResponse(request, page);
+  } catch (error) {
+    return errorResponse(error, "github-app");
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { forgetInstallationToken } from "@/lib/github-app";
+
+/**
+ * GET /api/integrations/github-app/setup
+ * The GitHub App's Setup URL. GitHub redirects here after the app is
+ * installed or its repositories are changed, with `installation_id` and
+ * `setup_action` (install, update, or request when an organization owner
+ * has to approve it). The installation ID isn't trusted: the page it
+ * redirects to only shows installations the user's token can access.
+ */
+export async function GET(request: NextRequest) {
+  if (!isEnabledProvider("github-app")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const setupAction = searchParams.get("setup_action");
+  const installationId = Number(searchParams.get("installation_id"));
+
+  const pageUrl = new URL(
+    "/integrations/github-app/installations",
+    request.url
+  );
+  if (setupAction) {
+    pageUrl.searchParams.set("setup", setupAction);
+  }
+
+  // Requests awaiting approval don't have an installation yet
+  if (
+    setupAction !== "request" &&
+    Number.isInteger(installationId) &&
+    installationId > 0
+  ) {
+    // The installation's permissions or repositories may have changed
+    forgetInstallationToken(installationId);
+    pageUrl.searchParams.set("installation", String(installationId));
+  }
+
+  return NextResponse.redirect(pageUrl);
+}
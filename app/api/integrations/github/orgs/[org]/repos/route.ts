@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { requireScopes } from "@/lib/access-token";
+import { listOrganizationRepositories } from "@/lib/github-api";
+import {
+  errorResponse,
+  getPageParams,
+  notConnectedResponse,
+  pageResponse,
+} from "../../../response";
+
+/**
+ * GET /api/integrations/github/orgs/[org]/repos
+ * List an organization's repositories visible to the authenticated user.
+ * Private repositories are only included with the `repo` scope.
+ * Supports `?account=<id>`, `?page=` and `?per_page=`
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ org: string }> }
+) {
+  if (!isEnabledProvider("github")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { org } = await params;
+    const { accountId, options } = getPageParams(request);
+    const connection = await requireScopes("github", ["read:org"], accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const page = await listOrganizationRepositories(
+      connection.accessToken,
+      org,
+      options
+    );
+    return pageResponse(request, page);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { requireScopes } from "@/lib/access-token";
+import { listOrganizations } from "@/lib/github-api";
+import {
+  errorResponse,
+  getPageParams,
+  notConnectedResponse,
+  pageResponse,
+} from "../response";
+
+/**
+ * GET /api/integrations/github/orgs
+ * List the organizations of the authenticated GitHub user
+ * Supports `?account=<id>`, `?page=` and `?per_page=`
+ */
+export async function GET(request: NextRequest) {
+  if (!isEnabledProvider("github")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { accountId, options } = getPageParams(request);
+    const connection = await requireScopes("github", ["read:org"], accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const page = await listOrganizations(connection.accessToken, options);
+    return pageResponse(request, page);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  InsufficientScopeError,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
+import {
+  GitHubApiError,
+  type GitHubPage,
+  type GitHubPageOptions,
+  type GitHubProvider,
+  type GitHubRateLimit,
+} from "@/lib/github-api";
+
+/**
+ * `?account=`, `?page=` and `?per_page=` shared by the GitHub routes
+ */
+export function getPageParams(request: NextRequest): {
+  accountId?: string;
+  options: GitHubPageOptions;
+} {
+  const { searchParams } = request.nextUrl;
+  const page = Number(searchParams.get("page"));
+  const perPage = Number(searchParams.get("per_page"));
+
+  return {
+    accountId: searchParams.get("account") ?? undefined,
+    options: {
+      page: Number.isInteger(page) && page > 0 ? page : 1,
+      perPage:
+        Number.isInteger(perPage) && perPage > 0
+          ? Math.min(perPage, 100)
+          : undefined,
+    },
+  };
+}
+
+function rateLimitHeaders(rateLimit?: GitHubRateLimit): HeadersInit {
+  if (!rateLimit) {
+    return {};
+  }
+  return {
+    "X-RateLimit-Limit": String(rateLimit.limit),
+    "X-RateLimit-Remaining": String(rateLimit.remaining),
+    "X-RateLimit-Used": String(rateLimit.used),
+    "X-RateLimit-Reset": String(rateLimit.reset),
+    "X-RateLimit-Resource": rateLimit.resource,
+  };
+}
+
+/**
+ * Respond with a page of GitHub data, forwarding its ETag and rate limit.
+ * Answers 304 when the client's If-None-Match still matches.
+ */
+export function pageResponse<T>(request: NextRequest, page: GitHubPage<T>) {
+  const headers = new Headers(rateLimitHeaders(page.rateLimit));
+  headers.set("Cache-Control", "private, no-cache");
+  if (page.etag) {
+    headers.set("ETag", page.etag);
+  }
+
+  if (page.etag && request.headers.get("if-none-match") === page.etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return NextResponse.json(
+    {
+      data: page.data,
+      pagination: page.pagination,
+      rateLimit: page.rateLimit ?? null,
+    },
+    { headers }
+  );
+}
+
+/**
+ * Map failures of the GitHub (and GitHub App) routes onto API responses
+ */
+export function errorResponse(
+  error: unknown,
+  provider: GitHubProvider = "github"
+) {
+  if (error instanceof InsufficientScopeError) {
+    return NextResponse.json(error, {
+      status: 403,
+      headers: { "WWW-Authenticate": error.challenge },
+    });
+  }
+  if (error instanceof ReauthorizationRequiredError) {
+    return NextResponse.json(
+      { error: "reauthorization_required", provider },
+      { status: 401 }
+    );
+  }
+  if (error instanceof GitHubApiError) {
+    if (error.rateLimited) {
+      return NextResponse.json(
+        { error: "rate_limited", message: error.message },
+        {
+          status: 429,
+          headers: {
+            ...rateLimitHeaders(error.rateLimit),
+            "Retry-After": String(error.retryAfter),
+          },
+        }
+      );
+    }
+    // Pass client errors through (e.g., 404 for an unknown org)
+    if (error.status >= 400 && error.status < 500) {
+      return NextResponse.json(
+        { error: "github_error", message: error.message },
+        { status: error.status, headers: rateLimitHeaders(error.rateLimit) }
+      );
+    }
+  }
+
+  console.error("Error calling the GitHub API:", error);
+  return NextResponse.json(
+    { error: "Failed to fetch data from GitHub" },
+    { status: 502 }
+  );
+}
+
+export function notConnectedResponse() {
+  return NextResponse.json(
+    { error: "Not authenticated with this provider" },
+    { status: 401 }
+  );
+}
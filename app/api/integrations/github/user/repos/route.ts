@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getValidConnection } from "@/lib/access-token";
+import { listUserRepositories } from "@/lib/github-api";
+import {
+  errorResponse,
+  getPageParams,
+  notConnectedResponse,
+  pageResponse,
+} from "../../response";
+
+/**
+ * GET /api/integrations/github/user/repos
+ * List repositories the authenticated user can access, most recently
+ * updated first. Private repositories are only included with the `repo` scope.
+ * Supports `?account=<id>`, `?page=` and `?per_page=`
+ */
+export async function GET(request: NextRequest) {
+  if (!isEnabledProvider("github")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { accountId, options } = getPageParams(request);
+    const connection = await getValidConnection("github", accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const page = await listUserRepositories(connection.accessToken, options);
+    return pageResponse(request, page);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
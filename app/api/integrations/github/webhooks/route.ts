@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getValidConnection } from "@/lib/access-token";
+import type { GitHubProvider } from "@/lib/github-api";
+import { getWebhookStore } from "@/lib/github-webhooks";
+import { errorResponse, notConnectedResponse } from "../response";
+
+const GITHUB_PROVIDERS: GitHubProvider[] = ["github", "github-app"];
+
+/**
+ * GET /api/integrations/github/webhooks
+ * List the logged webhook deliveries concerning the authenticated GitHub
+ * account or its organizations, most recent first, through the first
+ * enabled GitHub provider the session is connected to
+ * Supports `?provider=github|github-app` and `?account=<id>`
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const requested = searchParams.get("provider");
+  const providers = GITHUB_PROVIDERS.filter(
+    (provider) =>
+      isEnabledProvider(provider) && (!requested || requested === provider)
+  );
+  if (providers.length === 0) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const accountId = searchParams.get("account") ?? undefined;
+    let connection;
+    for (const provider of providers) {
+      connection = await getValidConnection(provider, accountId);
+      if (connection) {
+        break;
+      }
+    }
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const deliveries = await getWebhookStore().listDeliveries(
+      connection.accountId
+    );
+    return NextResponse.json({ data: deliveries });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
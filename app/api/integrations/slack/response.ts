@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { InsufficientScopeError } from "@/lib/access-token";
+import { parseScope } from "@/lib/scopes";
+import { SlackApiError, type SlackPageOptions } from "@/lib/slack-api";
+
+/**
+ * `?cursor=` and `?limit=` shared by the Slack routes
+ */
+export function getPageOptions(request: NextRequest): SlackPageOptions {
+  const { searchParams } = request.nextUrl;
+  const limit = Number(searchParams.get("limit"));
+
+  return {
+    cursor: searchParams.get("cursor") || undefined,
+    limit:
+      Number.isInteger(limit) && limit > 0 ? Math.min(limit, 200) : undefined,
+  };
+}
+
+/**
+ * Map failures of the Slack routes onto API responses
+ */
+export function errorResponse(error: unknown) {
+  // The bot lacks a scope; reinstalling with it upgrades the installation
+  if (error instanceof SlackApiError && error.error === "missing_scope") {
+    const needed = parseScope(error.needed);
+    error = new InsufficientScopeError("slack", undefined, needed, needed);
+  }
+  if (error instanceof InsufficientScopeError) {
+    return NextResponse.json(error, {
+      status: 403,
+      headers: { "WWW-Authenticate": error.challenge },
+    });
+  }
+  if (error instanceof SlackApiError) {
+    if (error.retryAfter !== undefined) {
+      return NextResponse.json(
+        { error: "rate_limited", message: error.message },
+        { status: 429, headers: { "Retry-After": String(error.retryAfter) } }
+      );
+    }
+    // The bot token was revoked, e.g. because the app was uninstalled, or
+    // its rotated token couldn't be refreshed
+    if (
+      [
+        "invalid_auth",
+        "token_revoked",
+        "token_expired",
+        "account_inactive",
+      ].includes(error.error)
+    ) {
+      return NextResponse.json(
+        {
+          error: "reinstall_required",
+          message: error.message,
+          install_url: "/api/oauth/slack/authorize",
+        },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json(
+      { error: "slack_error", message: error.error },
+      { status: 400 }
+    );
+  }
+
+  console.error("Error calling the Slack Web API:", error);
+  return NextResponse.json(
+    { error: "Failed to fetch data from Slack" },
+    { status: 502 }
+  );
+}
+
+/**
+ * The session has no connection to the workspace, or the app isn't
+ * installed there
+ */
+export function notInstalledResponse() {
+  return NextResponse.json(
+    {
+      error: "not_installed",
+      message: "No Slack installation for this workspace",
+      install_url: "/api/oauth/slack/authorize",
+    },
+    { status: 404 }
+  );
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { listChannels } from "@/lib/slack-api";
+import { getConnectedInstallation } from "@/lib/slack-installations";
+import {
+  errorResponse,
+  getPageOptions,
+  notInstalledResponse,
+} from "../../../response";
+
+/**
+ * GET /api/integrations/slack/workspaces/[workspace]/channels
+ * List the public channels of a workspace, with the app's bot token
+ * Supports `?cursor=` and `?limit=`; pass `nextCursor` back as `cursor`
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspace: string }> }
+) {
+  if (!isEnabledProvider("slack")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { workspace } = await params;
+    const installation = await getConnectedInstallation(workspace);
+    if (!installation?.bot) {
+      return notInstalledResponse();
+    }
+
+    const page = await listChannels(
+      installation.bot.token,
+      getPageOptions(request)
+    );
+    return NextResponse.json(page);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
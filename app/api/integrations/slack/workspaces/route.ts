@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { listConnections } from "@/lib/access-token";
+import { getInstallationStore } from "@/lib/slack-installations";
+
+/**
+ * GET /api/integrations/slack/workspaces
+ * List the workspaces the session's Slack connections belong to, with
+ * the app's installation in each
+ */
+export async function GET() {
+  if (!isEnabledProvider("slack")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const store = getInstallationStore();
+    const data = [];
+
+    for (const { accountId, profile } of await listConnections("slack")) {
+      const workspace = profile?.organization;
+      if (!workspace) {
+        continue;
+      }
+
+      const installation = await store.getInstallation(workspace.id);
+      data.push({
+        id: workspace.id,
+        name: workspace.name ?? null,
+        account: accountId,
+        installed: installation?.bot !== undefined,
+        enterprise: installation?.enterprise ?? null,
+        isEnterpriseInstall: installation?.isEnterpriseInstall ?? false,
+        appId: installation?.appId ?? null,
+        botUserId: installation?.bot?.userId ?? null,
+        botScopes: installation?.bot?.scopes ?? [],
+      });
+    }
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error("Error listing Slack workspaces:", error);
+    return NextResponse.json(
+      { error: "Failed to list Slack workspaces" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getValidConnection } from "@/lib/access-token";
+import { listOrganizations } from "@/lib/supabase-api";
+import { errorResponse, notConnectedResponse } from "../response";
+
+/**
+ * GET /api/integrations/supabase/organizations
+ * List the organizations the authenticated Supabase user belongs to
+ * Pass `?account=<id>` to use a specific account instead of the default
+ */
+export async function GET(request: NextRequest) {
+  if (!isEnabledProvider("supabase")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const accountId = request.nextUrl.searchParams.get("account") ?? undefined;
+    const connection = await getValidConnection("supabase", accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const data = await listOrganizations(connection.accessToken);
+    return NextResponse.json({ data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getValidConnection } from "@/lib/access-token";
+import { getProjectApiKeys } from "@/lib/supabase-api";
+import { errorResponse, notConnectedResponse } from "../../../response";
+
+/**
+ * GET /api/integrations/supabase/projects/[ref]/api-keys
+ * List a project's API keys (anon and service_role)
+ * Pass `?account=<id>` to use a specific account instead of the default
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ref: string }> }
+) {
+  if (!isEnabledProvider("supabase")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { ref } = await params;
+    const accountId = request.nextUrl.searchParams.get("account") ?? undefined;
+    const connection = await getValidConnection("supabase", accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const data = await getProjectApiKeys(connection.accessToken, ref);
+    // The service_role key bypasses Row Level Security; never cache it
+    return NextResponse.json(
+      { data },
+      { headers: { "Cache-Control": "no-store" } }
+    );
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getValidConnection } from "@/lib/access-token";
+import { listBranches } from "@/lib/supabase-api";
+import { errorResponse, notConnectedResponse } from "../../../response";
+
+/**
+ * GET /api/integrations/supabase/projects/[ref]/branches
+ * List a project's database branches
+ * Pass `?account=<id>` to use a specific account instead of the default
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ref: string }> }
+) {
+  if (!isEnabledProvider("supabase")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { ref } = await params;
+    const accountId = request.nextUrl.searchParams.get("account") ?? undefined;
+    const connection = await getValidConnection("supabase", accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const data = await listBranches(connection.accessToken, ref);
+    return NextResponse.json({ data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
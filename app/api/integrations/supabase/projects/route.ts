@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getValidConnection } from "@/lib/access-token";
+import { listProjects } from "@/lib/supabase-api";
+import { errorResponse, notConnectedResponse } from "../response";
+
+/**
+ * GET /api/integrations/supabase/projects
+ * List the authenticated Supabase user's projects with their region and status
+ * Pass `?organization=<id>` to only list one organization's projects
+ * Pass `?account=<id>` to use a specific account instead of the default
+ */
+export async function GET(request: NextRequest) {
+  if (!isEnabledProvider("supabase")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const accountId = searchParams.get("account") ?? undefined;
+    const connection = await getValidConnection("supabase", accountId);
+    if (!connection) {
+      return notConnectedResponse();
+    }
+
+    const data = await listProjects(
+      connection.accessToken,
+      searchParams.get("organization") ?? undefined
+    );
+    return NextResponse.json({ data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
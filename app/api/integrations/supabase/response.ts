@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { ReauthorizationRequiredError } from "@/lib/access-token";
+import { SupabaseApiError } from "@/lib/supabase-api";
+
+/**
+ * Map failures of the Supabase routes onto API responses
+ */
+export function errorResponse(error: unknown) {
+  if (error instanceof ReauthorizationRequiredError) {
+    return NextResponse.json(
+      { error: "reauthorization_required", provider: "supabase" },
+      { status: 401 }
+    );
+  }
+  // Pass client errors through (e.g., 404 for an unknown project ref)
+  if (
+    error instanceof SupabaseApiError &&
+    error.status >= 400 &&
+    error.status < 500
+  ) {
+    return NextResponse.json(
+      { error: "supabase_error", message: error.message },
+      { status: error.status }
+    );
+  }
+
+  console.error("Error calling the Supabase Management API:", error);
+  return NextResponse.json(
+    { error: "Failed to fetch data from Supabase" },
+    { status: 502 }
+  );
+}
+
+export function notConnectedResponse() {
+  return NextResponse.json(
+    { error: "Not authenticated with this provider" },
+    { status: 401 }
+  );
+}
@@ -4,27 +4,70 @@ import {
   getAuthorizationServer,
   getProviderConfig,
   generateState,
+  generateNonce,
   generateCodeVerifier,
   calculateCodeChallenge,
   Provider,
-  isValidProvider,
+  isEnabledProvider,
 } from "@/lib/oauth-config";
+import { listConnections } from "@/lib/access-token";
+import { mergeScopes, parseScope } from "@/lib/scopes";
 
+/**
+ * GET /api/oauth/[provider]/authorize
+ * Pass `?add_account=1` to connect an additional account
+ * Pass `?scope=<scopes>` to request scopes on top of the configured ones,
+ * and `?account=<id>` to upgrade that account instead of the default.
+ * Scopes already granted to the account are requested again so the
+ * upgraded token keeps them.
+ */
 export async function GET(
-  _request: Request,
+  request: Request,
   { params }: { params: Promise<{ provider: string }> }
 ) {
   const { provider } = await params;
 
   // Validate provider
-  if (!isValidProvider(provider)) {
+  if (!isEnabledProvider(provider)) {
     return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
   }
 
   const client = getClient(provider as Provider);
-  const authorizationServer = getAuthorizationServer(provider as Provider);
+  let authorizationServer;
+  try {
+    authorizationServer = await getAuthorizationServer(provider as Provider);
+  } catch (error) {
+    // Discovery can fail, e.g. when the issuer is unreachable
+    console.error("Error resolving the authorization server:", error);
+    const errorUrl = new URL(`/oauth/${provider}/error`, request.url);
+    errorUrl.searchParams.set("error", "server_error");
+    errorUrl.searchParams.set(
+      "error_description",
+      "The provider's authorization server is unavailable. Please try again."
+    );
+    return NextResponse.redirect(errorUrl);
+  }
   const providerConfig = getProviderConfig(provider as Provider);
 
+  const { searchParams } = new URL(request.url);
+  const additionalScopes = parseScope(searchParams.get("scope"));
+  const upgrade = additionalScopes.length > 0;
+
+  let grantedScope: string | undefined;
+  if (upgrade) {
+    const accountId = searchParams.get("account");
+    const connections = await listConnections(provider);
+    grantedScope = connections.find((connection) =>
+      accountId ? connection.accountId === accountId : connection.isDefault
+    )?.scope;
+  }
+  const scopes = mergeScopes(
+    providerConfig.scope,
+    grantedScope,
+    additionalScopes
+  );
+  const scope = scopes.join(providerConfig.scopeDelimiter);
+
   const state = generateState();
   const authorizationUrl = new URL(authorizationServer.authorization_endpoint!);
 
@@ -34,8 +77,30 @@ export async function GET(
   params_map.set("response_type", "code");
   params_map.set("state", state);
 
-  if (providerConfig.scope) {
-    params_map.set("scope", providerConfig.scope);
+  if (scope) {
+    params_map.set("scope", scope);
+  }
+
+  for (const [key, value] of Object.entries(
+    providerConfig.authorizationParams
+  )) {
+    params_map.set(key, value);
+  }
+
+  // Let the user pick a different account than the ones already connected
+  if (searchParams.has("add_account")) {
+    const { addAccountParams } = providerConfig;
+    for (const [key, value] of Object.entries(addAccountParams)) {
+      params_map.set(key, value);
+    }
+  }
+
+  // Ask for more scopes on an existing connection
+  if (upgrade) {
+    const { upgradeParams } = providerConfig;
+    for (const [key, value] of Object.entries(upgradeParams)) {
+      params_map.set(key, value);
+    }
   }
 
   // Handle PKCE if required
@@ -47,6 +112,13 @@ export async function GET(
     params_map.set("code_challenge_method", "S256");
   }
 
+  // Bind the ID token to this authorization request
+  let nonce: string | undefined;
+  if (providerConfig.oidc) {
+    nonce = generateNonce();
+    params_map.set("nonce", nonce);
+  }
+
   authorizationUrl.search = params_map.toString();
 
   console.log("Redirecting to authorization URL:", authorizationUrl.toString());
@@ -73,6 +145,24 @@ export async function GET(
     );
   }
 
+  // Store nonce for ID token validation
+  if (nonce) {
+    response.cookies.set(`${providerConfig.cookiePrefix}oauth_nonce`, nonce, {
+      httpOnly: true,
+      secure: true,
+      sameSite: "lax",
+    });
+  }
+
+  // Store the requested scopes, in case the token response omits `scope`
+  if (scope) {
+    response.cookies.set(`${providerConfig.cookiePrefix}oauth_scope`, scope, {
+      httpOnly: true,
+      secure: true,
+      sameSite: "lax",
+    });
+  }
+
   console.log(
     "[/oauth/[provider]/authorize] Set cookies for state and code_verifier"
   );
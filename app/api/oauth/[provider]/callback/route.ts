@@ -4,9 +4,38 @@ import {
   getClient,
   getAuthorizationServer,
   getProviderConfig,
+  getProviderDefinition,
   Provider,
-  isValidProvider,
+  isEnabledProvider,
 } from "@/lib/oauth-config";
+import { getRequestOptions } from "@/lib/oauth-quirks";
+import { getExpiresAt } from "@/lib/access-token";
+import { OAuthClient, type UserInfo } from "@/lib/oauth-client";
+import {
+  createSessionId,
+  getSessionId,
+  setSessionCookie,
+} from "@/lib/session";
+import { getTokenStore } from "@/lib/token-store";
+import { getWorkspace, saveInstallation } from "@/lib/slack-installations";
+import { linkGitHubAccount } from "@/lib/github-webhooks";
+
+/**
+ * Redirect to the error page, which reports the failure to the opener window
+ */
+function errorRedirect(
+  request: NextRequest,
+  provider: string,
+  error: string,
+  errorDescription?: string
+) {
+  const errorUrl = new URL(`/oauth/${provider}/error`, request.url);
+  errorUrl.searchParams.set("error", error);
+  if (errorDescription) {
+    errorUrl.searchParams.set("error_description", errorDescription);
+  }
+  return NextResponse.redirect(errorUrl);
+}
 
 export async function GET(
   request: NextRequest,
@@ -15,12 +44,24 @@ export async function GET(
   const { provider } = await routeParams;
 
   // Validate provider
-  if (!isValidProvider(provider)) {
-    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  if (!isEnabledProvider(provider)) {
+    return errorRedirect(request, provider, "invalid_provider");
   }
 
   const client = getClient(provider);
-  const _as = getAuthorizationServer(provider);
+  let _as: oauth.AuthorizationServer;
+  try {
+    _as = await getAuthorizationServer(provider);
+  } catch (error) {
+    // Discovery can fail, e.g. when the issuer is unreachable
+    console.error("Error resolving the authorization server:", error);
+    return errorRedirect(
+      request,
+      provider,
+      "server_error",
+      "The provider's authorization server is unavailable. Please try again."
+    );
+  }
   const providerConfig = getProviderConfig(provider);
 
   const url = new URL(request.url);
@@ -31,9 +72,11 @@ export async function GET(
   )?.value;
 
   if (!storedState) {
-    return NextResponse.json(
-      { error: "Missing stored state" },
-      { status: 400 }
+    return errorRedirect(
+      request,
+      provider,
+      "invalid_request",
+      "The authorization session expired. Please try again."
     );
   }
 
@@ -51,18 +94,32 @@ export async function GET(
     );
   } catch (error) {
     console.error("Authorization validation error:", error);
-    return NextResponse.json(
-      { error: "Authorization validation failed" },
-      { status: 400 }
+
+    // The provider returned an error, e.g. access_denied when the user declined consent
+    if (error instanceof oauth.AuthorizationResponseError) {
+      return errorRedirect(
+        request,
+        provider,
+        error.error,
+        error.error_description
+      );
+    }
+    return errorRedirect(
+      request,
+      provider,
+      "invalid_request",
+      "Authorization validation failed"
     );
   }
 
   // MARK: Exchange authorization code for tokens
   const code = authParams.get("code");
   if (!code) {
-    return NextResponse.json(
-      { error: "Missing authorization code" },
-      { status: 400 }
+    return errorRedirect(
+      request,
+      provider,
+      "invalid_request",
+      "Missing authorization code"
     );
   }
 
@@ -74,9 +131,27 @@ export async function GET(
     )?.value;
 
     if (!codeVerifier) {
-      return NextResponse.json(
-        { error: "Missing code verifier" },
-        { status: 400 }
+      return errorRedirect(
+        request,
+        provider,
+        "invalid_request",
+        "Missing code verifier"
+      );
+    }
+  }
+
+  // Get nonce if the provider issues ID tokens
+  let nonce: string | undefined;
+  if (providerConfig.oidc) {
+    nonce = request.cookies.get(`${providerConfig.cookiePrefix}oauth_nonce`)
+      ?.value;
+
+    if (!nonce) {
+      return errorRedirect(
+        request,
+        provider,
+        "invalid_request",
+        "Missing nonce"
       );
     }
   }
@@ -86,7 +161,9 @@ export async function GET(
     // Performs an Authorization Code grant request at the as.token\_endpoint.
     // https://github.com/panva/oauth4webapi/blob/main/docs/functions/authorizationCodeGrantRequest.md
     const clientSecret = String(client.client_secret);
-    let tokenResponse = await oauth.authorizationCodeGrantRequest(
+    // Provider quirks (e.g., Supabase's Basic auth encoding and 201 status)
+    // are handled by the provider's middleware
+    const tokenResponse = await oauth.authorizationCodeGrantRequest(
       _as,
       client,
       client.token_endpoint_auth_method === "client_secret_post"
@@ -95,94 +172,130 @@ export async function GET(
       authParams,
       providerConfig.redirectUri,
       codeVerifier || oauth.nopkce,
-      {
-        [oauth.customFetch](url, options) {
-          console.log("Token request fetch args:\n", url, options);
-          console.log(
-            `Basic ${btoa(`${client.client_id}:${client.client_secret}`)}`
-          );
-          return fetch(url, {
-            ...options,
-            headers: {
-              // RFC 6749 Section 2.3.1 states that the clientID and password
-              // are to be encoded via "application/x-www-form-urlencoded".
-              // Supabase doesn't seem to comply with that, so base64 encode the plan strings instead.
-              ...(provider === "supabase"
-                ? {
-                    Accept: "application/json",
-                    Authorization: `Basic ${btoa(
-                      `${client.client_id}:${client.client_secret}`
-                    )}`,
-                    "Content-Type": "application/x-www-form-urlencoded",
-                  }
-                : {
-                    ...options?.headers,
-                  }),
-            },
-          });
-        },
-      }
+      getRequestOptions(provider, _as, "token")
     );
 
-    // Unlike the 200 status as specified in RFC 6749, some providers (e.g., GitHub)
-    // Supabase returns 201 instead
-    if (provider === "supabase") {
-      if (tokenResponse.status === 201) {
-        tokenResponse = new Response(tokenResponse.body, {
-          ...tokenResponse,
-          status: 200,
-        });
-      }
-    }
-
     // Validates Authorization Code Grant Response instance to be one coming from the as.token\_endpoint.
     // https://github.com/panva/oauth4webapi/blob/main/docs/functions/processAuthorizationCodeResponse.md
+    // For OIDC providers this also validates the ID token's iss, aud, exp and nonce claims.
     const result = await oauth.processAuthorizationCodeResponse(
       _as,
       client,
-      tokenResponse
+      tokenResponse,
+      nonce ? { expectedNonce: nonce, requireIdToken: true } : undefined
     );
 
+    // MARK: Validate the ID token signature against the provider's JWKS
+    // https://github.com/panva/oauth4webapi/blob/main/docs/functions/validateApplicationLevelSignature.md
+    const idTokenClaims = oauth.getValidatedIdTokenClaims(result);
+    if (idTokenClaims) {
+      await oauth.validateApplicationLevelSignature(
+        _as,
+        tokenResponse,
+        getRequestOptions(provider, _as)
+      );
+    }
+
+    // Some responses carry several tokens (e.g., Slack's bot and user tokens)
+    const { selectConnectionToken } = getProviderDefinition(provider);
+    const tokens = selectConnectionToken?.(result) ?? result;
+
+    // MARK: Identify the connected account
+    // Several accounts per provider can be connected, keyed by UserInfo.id.
+    // An unidentified account could overwrite another one, so nothing is stored.
+    let userInfo: UserInfo | undefined;
+    try {
+      userInfo = await new OAuthClient(provider, tokens.access_token, {
+        idTokenClaims,
+      }).getUserInfo();
+    } catch (error) {
+      console.error(`Could not identify the ${provider} account:`, error);
+    }
+    if (!userInfo?.id) {
+      return errorRedirect(
+        request,
+        provider,
+        "server_error",
+        "Could not identify the connected account"
+      );
+    }
+    const accountId = userInfo.id;
+
+    // MARK: Slack app installs grant the workspace a bot token
+    const installation =
+      provider === "slack" ? await saveInstallation(result) : undefined;
+
     // Redirect to success page
     const successUrl = new URL(`/oauth/${provider}/success`, request.url);
     const res = NextResponse.redirect(successUrl);
 
-    // Store tokens in cookies
-    res.cookies.set(
-      `${providerConfig.cookiePrefix}access_token`,
-      result.access_token,
-      {
-        httpOnly: true,
-        secure: true,
-        sameSite: "lax",
-        maxAge: result.expires_in ?? 3600,
-      }
-    );
+    // Store tokens server-side; the cookie only carries the session ID.
+    // ID token claims are kept so userinfo doesn't need a round-trip.
+    const sessionId = getSessionId(request.cookies) ?? createSessionId();
+    // Reconnecting (e.g., to grant more scopes) may not issue a new refresh token
+    const existing = await getTokenStore().get(sessionId, provider, accountId);
+    // RFC 6749 Section 5.1: an omitted scope means the requested one was granted
+    const requestedScope = request.cookies.get(
+      `${providerConfig.cookiePrefix}oauth_scope`
+    )?.value;
+    await getTokenStore().save(sessionId, provider, accountId, {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token ?? existing?.refreshToken,
+      idTokenClaims,
+      expiresAt: getExpiresAt(tokens.expires_in),
+      issuedAt: Date.now(),
+      scope: tokens.scope ?? requestedScope,
+      profile: {
+        name: userInfo.name,
+        username: userInfo.username,
+        email: userInfo.email,
+        avatar_url: userInfo.avatar_url,
+        // Slack connections point at their installation's workspace
+        organization: installation
+          ? getWorkspace(installation)
+          : userInfo.organization,
+      },
+    });
+    setSessionCookie(res.cookies, sessionId);
 
-    if (result.refresh_token) {
-      res.cookies.set(
-        `${providerConfig.cookiePrefix}refresh_token`,
-        result.refresh_token,
-        {
-          httpOnly: true,
-          secure: true,
-          sameSite: "lax",
-        }
+    // MARK: Match GitHub webhook deliveries to the account and its orgs
+    if (provider === "github" || provider === "github-app") {
+      await linkGitHubAccount(
+        sessionId,
+        provider,
+        accountId,
+        tokens.access_token
       );
     }
 
     // Clear temporary cookies
     res.cookies.delete(`${providerConfig.cookiePrefix}oauth_state`);
+    res.cookies.delete(`${providerConfig.cookiePrefix}oauth_scope`);
     if (providerConfig.usePKCE) {
       res.cookies.delete(`${providerConfig.cookiePrefix}code_verifier`);
     }
+    if (providerConfig.oidc) {
+      res.cookies.delete(`${providerConfig.cookiePrefix}oauth_nonce`);
+    }
 
     return res;
   } catch (error) {
     console.error("Token exchange error:", error);
-    return NextResponse.json(
-      { error: "Failed to exchange code for token" },
-      { status: 500 }
+
+    // OAuth error response from the token endpoint, e.g. invalid_grant
+    if (error instanceof oauth.ResponseBodyError) {
+      return errorRedirect(
+        request,
+        provider,
+        error.error,
+        error.error_description
+      );
+    }
+    return errorRedirect(
+      request,
+      provider,
+      "server_error",
+      "Failed to exchange code for token"
     );
   }
 }
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getSessionId } from "@/lib/session";
+import { getTokenStore } from "@/lib/token-store";
+
+/**
+ * POST /api/oauth/[provider]/default
+ * Make one of the provider's connected accounts the default: `{ accountId }`
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+
+  // Validate provider
+  if (!isEnabledProvider(provider)) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  // Malformed JSON, `null` and other non-object bodies are rejected too
+  const body = await request.json().catch(() => null);
+  const accountId: unknown =
+    typeof body === "object" && body !== null ? body.accountId : undefined;
+  if (typeof accountId !== "string") {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  const cookieStore = await cookies();
+  const sessionId = getSessionId(cookieStore);
+  const connection = sessionId
+    ? await getTokenStore().setDefault(sessionId, provider, accountId)
+    : undefined;
+
+  if (!connection) {
+    return NextResponse.json(
+      { error: "No connection found for account" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, accountId });
+}
@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { cookies } from "next/headers";
-import { OAuthClient } from "@/lib/oauth-client";
 import {
-  Provider,
-  getProviderConfig,
-  isValidProvider,
-} from "@/lib/oauth-config";
+  refreshConnection,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { getSessionId } from "@/lib/session";
+import { getTokenStore } from "@/lib/token-store";
 
 /**
  * POST /api/oauth/[provider]/refresh
  * Refresh the access token for the authenticated provider
+ * Pass `?account=<id>` to refresh a specific account instead of the default
  */
 export async function POST(
   request: NextRequest,
@@ -18,64 +20,39 @@ export async function POST(
   const { provider } = await params;
 
   // Validate provider
-  if (!isValidProvider(provider)) {
+  if (!isEnabledProvider(provider)) {
     return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
   }
 
   try {
-    const providerConfig = getProviderConfig(provider as Provider);
+    const accountId = request.nextUrl.searchParams.get("account") ?? undefined;
     const cookieStore = await cookies();
+    const sessionId = getSessionId(cookieStore);
+    const connection = sessionId
+      ? await getTokenStore().get(sessionId, provider, accountId)
+      : undefined;
 
-    // Get refresh token from cookies
-    const refreshToken = cookieStore.get(
-      `${providerConfig.cookiePrefix}refresh_token`
-    )?.value;
-
-    if (!refreshToken) {
+    if (!sessionId || !connection?.refreshToken) {
       return NextResponse.json(
         { error: "No refresh token available" },
         { status: 401 }
       );
     }
 
-    // Refresh the access token using oauth4webapi
-    const tokenResponse = await OAuthClient.refreshAccessToken(
-      provider as Provider,
-      refreshToken
-    );
+    // Refresh the access token using oauth4webapi and store the new tokens
+    await refreshConnection(sessionId, connection);
 
-    // Update cookies with new tokens
-    const response = NextResponse.json({
+    return NextResponse.json({
       success: true,
       message: "Token refreshed successfully",
     });
-
-    response.cookies.set(
-      `${providerConfig.cookiePrefix}access_token`,
-      tokenResponse.access_token,
-      {
-        httpOnly: true,
-        secure: true,
-        sameSite: "lax",
-        maxAge: tokenResponse.expires_in || 3600,
-      }
-    );
-
-    // Update refresh token if a new one was provided
-    if (tokenResponse.refresh_token) {
-      response.cookies.set(
-        `${providerConfig.cookiePrefix}refresh_token`,
-        tokenResponse.refresh_token,
-        {
-          httpOnly: true,
-          secure: true,
-          sameSite: "lax",
-        }
+  } catch (error) {
+    if (error instanceof ReauthorizationRequiredError) {
+      return NextResponse.json(
+        { error: "reauthorization_required", provider },
+        { status: 401 }
       );
     }
-
-    return response;
-  } catch (error) {
     console.error(`Error refreshing token for ${provider}:`, error);
     return NextResponse.json(
       { error: "Failed to refresh token" },
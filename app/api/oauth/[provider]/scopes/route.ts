@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import {
+  InsufficientScopeError,
+  ReauthorizationRequiredError,
+  requireScopes,
+} from "@/lib/access-token";
+import { parseScope } from "@/lib/scopes";
+
+/**
+ * GET /api/oauth/[provider]/scopes
+ * List the scopes granted to the authenticated provider account
+ * Pass `?account=<id>` to use a specific account instead of the default
+ * Pass `?require=<scopes>` to get a 403 insufficient_scope error, with the
+ * scopes to request and an upgrade URL, unless all of them were granted
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+
+  // Validate provider
+  if (!isEnabledProvider(provider)) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const accountId = searchParams.get("account") ?? undefined;
+    const required = parseScope(searchParams.get("require"));
+    const connection = await requireScopes(provider, required, accountId);
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "Not authenticated with this provider" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      provider,
+      account: connection.accountId,
+      scopes: parseScope(connection.scope),
+    });
+  } catch (error) {
+    if (error instanceof InsufficientScopeError) {
+      return NextResponse.json(error, {
+        status: 403,
+        headers: { "WWW-Authenticate": error.challenge },
+      });
+    }
+    if (error instanceof ReauthorizationRequiredError) {
+      return NextResponse.json(
+        { error: "reauthorization_required", provider },
+        { status: 401 }
+      );
+    }
+    console.error(`Error reading scopes for ${provider}:`, error);
+    return NextResponse.json(
+      { error: "Failed to read granted scopes" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { OAuthClient } from "@/lib/oauth-client";
+import { Provider, isEnabledProvider } from "@/lib/oauth-config";
 import {
-  Provider,
-  isValidProvider,
-  getProviderConfig,
-} from "@/lib/oauth-config";
+  getValidConnection,
+  recordValidation,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
+import { parseScope } from "@/lib/scopes";
 
 /**
  * GET /api/oauth/[provider]/token-info
  * Validate the access token for the authenticated provider
- * Note: This endpoint validates by attempting to fetch user info
+ * Pass `?account=<id>` to use a specific account instead of the default
+ *
+ * Uses RFC 7662 introspection when the provider advertises an
+ * introspection_endpoint, the provider's own token API (GitHub), or else
+ * a userinfo request. Scopes and expiry fall back to what was stored
+ * with the token when the method doesn't report them.
  */
 export async function GET(
   request: NextRequest,
@@ -19,36 +25,54 @@ export async function GET(
   const { provider } = await params;
 
   // Validate provider
-  if (!isValidProvider(provider)) {
+  if (!isEnabledProvider(provider)) {
     return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
   }
 
   try {
-    const providerConfig = getProviderConfig(provider as Provider);
-    const cookieStore = await cookies();
+    // Get the stored connection, refreshing an expired access token
+    const accountId = request.nextUrl.searchParams.get("account") ?? undefined;
+    const connection = await getValidConnection(provider, accountId);
 
-    // Get access token from cookies
-    const accessToken = cookieStore.get(
-      `${providerConfig.cookiePrefix}access_token`
-    )?.value;
-
-    if (!accessToken) {
+    if (!connection) {
       return NextResponse.json(
         { error: "Not authenticated with this provider" },
         { status: 401 }
       );
     }
 
-    // Create OAuth client and validate token
-    const client = new OAuthClient(provider as Provider, accessToken);
-    const isValid = await client.validateToken();
+    // Create OAuth client and check the token
+    const client = new OAuthClient(
+      provider as Provider,
+      connection.accessToken
+    );
+    const tokenInfo = await client.introspectToken();
+    const isValid = tokenInfo.active;
+    await recordValidation(provider, connection.accountId, isValid);
+
+    const scope = tokenInfo.scope ?? connection.scope;
+    const expiresAt = tokenInfo.exp
+      ? tokenInfo.exp * 1000
+      : connection.expiresAt;
 
     return NextResponse.json({
       valid: isValid,
       provider,
+      method: tokenInfo.method,
+      scopes: parseScope(scope),
+      // Epoch milliseconds; null for tokens that don't expire
+      expiresAt: isValid ? (expiresAt ?? null) : null,
+      clientId: tokenInfo.client_id ?? null,
+      subject: tokenInfo.sub ?? null,
       message: isValid ? "Token is valid" : "Token is invalid or expired",
     });
   } catch (error) {
+    if (error instanceof ReauthorizationRequiredError) {
+      return NextResponse.json(
+        { error: "reauthorization_required", provider },
+        { status: 401 }
+      );
+    }
     console.error(`Error validating token for ${provider}:`, error);
     return NextResponse.json(
       {
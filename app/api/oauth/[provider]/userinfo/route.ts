@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { cookies } from "next/headers";
 import { OAuthClient } from "@/lib/oauth-client";
+import { Provider, isEnabledProvider } from "@/lib/oauth-config";
 import {
-  Provider,
-  getProviderConfig,
-  isValidProvider,
-} from "@/lib/oauth-config";
+  getValidConnection,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
 
 /**
  * GET /api/oauth/[provider]/userinfo
  * Fetch user information for the authenticated provider
+ * Pass `?account=<id>` to use a specific account instead of the default
  */
 export async function GET(
   request: NextRequest,
@@ -18,31 +18,39 @@ export async function GET(
   const { provider } = await params;
 
   // Validate provider
-  if (!isValidProvider(provider)) {
+  if (!isEnabledProvider(provider)) {
     return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
   }
 
-  const providerConfig = getProviderConfig(provider);
   try {
-    // Get access token from cookies
-    const cookieStore = await cookies();
-    const accessToken = cookieStore.get(
-      providerConfig.cookiePrefix + "access_token"
-    )?.value;
+    // Get the stored connection, refreshing an expired access token
+    const accountId = request.nextUrl.searchParams.get("account") ?? undefined;
+    const connection = await getValidConnection(provider, accountId);
 
-    if (!accessToken) {
+    if (!connection) {
       return NextResponse.json(
         { error: "Not authenticated with this provider" },
         { status: 401 }
       );
     }
 
-    // Create OAuth client and fetch user info
-    const client = new OAuthClient(provider as Provider, accessToken);
+    // Create OAuth client and fetch user info.
+    // OIDC providers use the ID token claims verified at the callback.
+    const client = new OAuthClient(
+      provider as Provider,
+      connection.accessToken,
+      { idTokenClaims: connection.idTokenClaims }
+    );
     const userInfo = await client.getUserInfo();
 
     return NextResponse.json(userInfo);
   } catch (error) {
+    if (error instanceof ReauthorizationRequiredError) {
+      return NextResponse.json(
+        { error: "reauthorization_required", provider },
+        { status: 401 }
+      );
+    }
     console.error(`Error fetching user info for ${provider}:`, error);
     return NextResponse.json(
       { error: "Failed to fetch user information" },
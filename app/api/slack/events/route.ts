@@ -0,0 +1,104 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import {
+  dispatchSlackEvent,
+  dispatchSlackInteraction,
+  getRetry,
+  recordDelivery,
+  verifySlackSignature,
+  type SlackEventCallback,
+  type SlackInteraction,
+  type SlackUrlVerification,
+} from "@/lib/slack-events";
+
+/**
+ * POST /api/slack/events
+ * Request URL for the Slack app's Events API and interactivity.
+ * Requests must carry a valid X-Slack-Signature. Slack expects an answer
+ * within 3 seconds, so handlers run after the acknowledgement.
+ */
+export async function POST(request: NextRequest) {
+  if (!isEnabledProvider("slack")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  // Without the signing secret no request can be verified
+  if (!process.env.SLACK_SIGNING_SECRET) {
+    console.error("SLACK_SIGNING_SECRET is not set, rejecting Slack request");
+    return NextResponse.json(
+      { error: "Slack events are not configured" },
+      { status: 503 }
+    );
+  }
+
+  // The signature covers the raw body, so read it before parsing
+  const body = await request.text();
+  if (!verifySlackSignature(request.headers, body)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  // MARK: Interactivity (form-encoded `payload`)
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.startsWith("application/x-www-form-urlencoded")) {
+    const form = new URLSearchParams(body);
+    // Sent when the Request URL is checked for a valid certificate
+    if (form.get("ssl_check")) {
+      return new NextResponse(null, { status: 200 });
+    }
+
+    const payload = parsePayload<SlackInteraction>(form.get("payload") ?? "");
+    if (!payload) {
+      return NextResponse.json(
+        { error: "Unsupported request" },
+        { status: 400 }
+      );
+    }
+    after(() => dispatchSlackInteraction(payload));
+    return new NextResponse(null, { status: 200 });
+  }
+
+  // MARK: Events API
+  const payload = parsePayload<SlackEventCallback | SlackUrlVerification>(body);
+  if (!payload) {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  if (payload.type === "url_verification") {
+    return NextResponse.json({ challenge: payload.challenge });
+  }
+
+  if (payload.type !== "event_callback") {
+    return new NextResponse(null, { status: 200 });
+  }
+
+  // Retries of an event that was already received, or that timed out
+  // after being received, are only acknowledged
+  const retry = getRetry(request.headers);
+  if (!recordDelivery(payload.event_id, retry)) {
+    console.log(
+      `Skipping Slack ${retry ? `retry ${retry.num} (${retry.reason})` : "redelivery"} of ${payload.event_id}`
+    );
+    return new NextResponse(null, {
+      status: 200,
+      headers: { "X-Slack-No-Retry": "1" },
+    });
+  }
+
+  const callback = payload;
+  after(() => dispatchSlackEvent(callback));
+  return new NextResponse(null, { status: 200 });
+}
+
+/** JSON object payloads only; `null`, arrays and other values are invalid */
+function parsePayload<T extends object>(text: string): T | undefined {
+  try {
+    const payload: unknown = JSON.parse(text);
+    return typeof payload === "object" &&
+      payload !== null &&
+      !Array.isArray(payload)
+      ? (payload as T)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import {
+  parseGitHubWebhook,
+  receiveGitHubWebhook,
+  verifyGitHubSignature,
+  type GitHubWebhookEvent,
+} from "@/lib/github-webhooks";
+
+/**
+ * POST /api/webhooks/github
+ * Payload URL for GitHub webhooks (content type application/json).
+ * Deliveries must carry a valid X-Hub-Signature-256. Supported events are
+ * logged against the connected accounts they concern; redeliveries of a
+ * logged X-GitHub-Delivery are only acknowledged.
+ */
+export async function POST(request: NextRequest) {
+  // OAuth App and GitHub App connections share the webhook
+  if (!isEnabledProvider("github") && !isEnabledProvider("github-app")) {
+    return NextResponse.json({ error: "Invalid provider" }, { status: 400 });
+  }
+
+  // Without the secret no delivery can be verified
+  if (!process.env.GITHUB_WEBHOOK_SECRET) {
+    console.error("GITHUB_WEBHOOK_SECRET is not set, rejecting GitHub webhook");
+    return NextResponse.json(
+      { error: "GitHub webhooks are not configured" },
+      { status: 503 }
+    );
+  }
+
+  // The signature covers the raw body, so read it before parsing
+  const body = await request.text();
+  if (
+    !verifyGitHubSignature(body, request.headers.get("x-hub-signature-256"))
+  ) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  }
+
+  const event = request.headers.get("x-github-event");
+  const deliveryId = request.headers.get("x-github-delivery");
+  if (!event || !deliveryId) {
+    return NextResponse.json(
+      { error: "Missing X-GitHub-Event or X-GitHub-Delivery" },
+      { status: 400 }
+    );
+  }
+
+  let webhook: GitHubWebhookEvent | undefined;
+  try {
+    webhook = parseGitHubWebhook(event, body);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  // e.g., the ping sent when the webhook is created
+  if (!webhook) {
+    return new NextResponse(null, { status: 204 });
+  }
+
+  const delivery = await receiveGitHubWebhook(deliveryId, webhook);
+  if (!delivery) {
+    console.log(`Skipping GitHub redelivery of ${deliveryId} (${event})`);
+    return new NextResponse(null, { status: 204 });
+  }
+  return NextResponse.json(
+    { delivery: delivery.id, accounts: delivery.accountIds.length },
+    { status: 202 }
+  );
+}
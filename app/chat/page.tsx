@@ -0,0 +1,124 @@
+import Link from "next/link";
+
+import { Chat } from "@/app/components/Chat";
+import { ConnectButton } from "@/app/components/ConnectButton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Item,
+  ItemActions,
+  ItemContent,
+  ItemDescription,
+  ItemGroup,
+  ItemSeparator,
+  ItemTitle,
+} from "@/components/ui/item";
+import { ChatModelConfigurationError, getChatModel } from "@/lib/chat-model";
+import { getConnectionTools, type ToolAvailability } from "@/lib/chat-tools";
+
+function describeStatus({ status, missingScopes }: ToolAvailability): string {
+  switch (status) {
+    case "available":
+      return "Available";
+    case "not_connected":
+      return "Not connected";
+    case "reauthorization_required":
+      return "Reconnect required";
+    case "missing_scopes":
+      return `Needs ${missingScopes!.join(", ")}`;
+    case "reinstall_required":
+      return "Reinstall required";
+    case "unavailable":
+      return "Unavailable";
+  }
+}
+
+/**
+ * Chat with a model that can call tools for the user's connected accounts.
+ * Lists which tools it has, and how to enable the others.
+ */
+export default async function ChatPage() {
+  let isConfigured = false;
+  let configurationError: string | undefined;
+  try {
+    isConfigured = Boolean(getChatModel());
+  } catch (error) {
+    if (!(error instanceof ChatModelConfigurationError)) {
+      throw error;
+    }
+    configurationError = error.message;
+  }
+  const { availability } = await getConnectionTools();
+
+  return (
+    <div className="min-h-screen mx-5">
+      <div className="mx-auto py-8 space-y-8">
+        <div className="space-y-2">
+          <Link
+            href="/"
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            ← Integrations
+          </Link>
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            Chat
+          </h1>
+        </div>
+
+        {/* Tools */}
+        <ItemGroup className="border">
+          {availability.length === 0 && (
+            <Item>
+              <ItemContent>
+                <ItemDescription>
+                  No enabled integration provides chat tools.
+                </ItemDescription>
+              </ItemContent>
+            </Item>
+          )}
+          {availability.map((tool, i, arr) => (
+            <div key={tool.name}>
+              <Item size="sm">
+                <ItemContent>
+                  <ItemTitle>
+                    <code>{tool.name}</code>
+                    <Badge
+                      variant={
+                        tool.status === "available" ? "secondary" : "outline"
+                      }
+                    >
+                      {describeStatus(tool)}
+                    </Badge>
+                  </ItemTitle>
+                  <ItemDescription>{tool.description}</ItemDescription>
+                </ItemContent>
+                {tool.status !== "available" &&
+                  tool.status !== "unavailable" && (
+                    <ItemActions>
+                      <ConnectButton
+                        provider={tool.provider}
+                        accountId={tool.accountId}
+                        isConnected={tool.status === "missing_scopes"}
+                        scopes={tool.missingScopes}
+                      />
+                    </ItemActions>
+                  )}
+              </Item>
+              {i < arr.length - 1 && <ItemSeparator />}
+            </div>
+          ))}
+        </ItemGroup>
+
+        {isConfigured ? (
+          <Chat />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {configurationError && `${configurationError}. `}
+            Set CHAT_MODEL to chat, e.g.{" "}
+            <code>anthropic:claude-sonnet-4-5</code> or{" "}
+            <code>openai:gpt-5-mini</code>.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  DefaultChatTransport,
+  getToolName,
+  isToolUIPart,
+  readUIMessageStream,
+  type UIMessage,
+} from "ai";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/ui/spinner";
+
+const transport = new DefaultChatTransport<UIMessage>({ api: "/api/chat" });
+
+const TOOL_STATES: Record<string, string> = {
+  "input-streaming": "Preparing",
+  "input-available": "Running",
+  "output-available": "Done",
+  "output-error": "Failed",
+};
+
+function MessageParts({ message }: { message: UIMessage }) {
+  return (
+    <div className="space-y-2">
+      {message.parts.map((part, i) => {
+        if (part.type === "text") {
+          return (
+            <p key={i} className="text-sm whitespace-pre-wrap">
+              {part.text}
+            </p>
+          );
+        }
+        if (isToolUIPart(part)) {
+          return (
+            <details key={i} className="text-xs border rounded-md px-3 py-2">
+              <summary className="cursor-pointer space-x-2">
+                <code>{getToolName(part)}</code>
+                <Badge
+                  variant={
+                    part.state === "output-error" ? "destructive" : "outline"
+                  }
+                >
+                  {TOOL_STATES[part.state]}
+                </Badge>
+              </summary>
+              <pre className="mt-2 overflow-x-auto text-muted-foreground">
+                {part.state === "output-error"
+                  ? part.errorText
+                  : JSON.stringify(
+                      part.state === "output-available"
+                        ? part.output
+                        : part.input,
+                      null,
+                      2
+                    )}
+              </pre>
+            </details>
+          );
+        }
+        return null;
+      })}
+    </div>
+  );
+}
+
+/**
+ * Conversation with the model behind /api/chat, which can call tools for
+ * the user's connected accounts
+ */
+export function Chat() {
+  const [chatId] = useState(() => crypto.randomUUID());
+  const [messages, setMessages] = useState<UIMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = input.trim();
+    if (!text || isStreaming) return;
+
+    const history: UIMessage[] = [
+      ...messages,
+      {
+        id: crypto.randomUUID(),
+        role: "user",
+        parts: [{ type: "text", text }],
+      },
+    ];
+    setMessages(history);
+    setInput("");
+    setError(null);
+    setIsStreaming(true);
+
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    try {
+      const stream = await transport.sendMessages({
+        trigger: "submit-message",
+        chatId,
+        messageId: undefined,
+        messages: history,
+        abortSignal: abortController.signal,
+      });
+      // Each update is a snapshot of the assistant message so far
+      for await (const message of readUIMessageStream({
+        stream,
+        onError: (error) =>
+          setError(error instanceof Error ? error.message : String(error)),
+      })) {
+        setMessages([...history, message]);
+      }
+    } catch (error) {
+      if (!abortController.signal.aborted) {
+        console.error("Failed to send message:", error);
+        setError(error instanceof Error ? error.message : String(error));
+      }
+    } finally {
+      abortRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-4">
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={
+              message.role === "user"
+                ? "ml-auto max-w-[80%] rounded-md bg-muted px-3 py-2"
+                : "max-w-[80%]"
+            }
+          >
+            <MessageParts message={message} />
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-destructive text-sm">{error}</p>}
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Input
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          placeholder="Ask about your repositories, projects or channels"
+          disabled={isStreaming}
+        />
+        {isStreaming ? (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => abortRef.current?.abort()}
+          >
+            <Spinner />
+            Stop
+          </Button>
+        ) : (
+          <Button type="submit" disabled={!input.trim()}>
+            Send
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
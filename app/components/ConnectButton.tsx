@@ -4,37 +4,58 @@ import { useState } from "react";
 
 import { Button } from "@/components/ui/button";
 import { Spinner } from "@/components/ui/spinner";
+import { getUpgradeUrl } from "@/lib/scopes";
 interface ConnectButtonProps {
   provider: string;
   isConnected: boolean;
   usePopup?: boolean;
+  /** Account to disconnect; defaults to the provider's default account */
+  accountId?: string;
+  /** Connect another account for a provider that already has one */
+  addAccount?: boolean;
+  /** Upgrade the connection with these scopes instead of disconnecting */
+  scopes?: string[];
 }
 
 export function ConnectButton({
   provider,
   isConnected,
   usePopup = true,
+  accountId,
+  addAccount = false,
+  scopes,
 }: ConnectButtonProps) {
   const [isConnecting, setIsConnecting] = useState(false);
   const [isDisconnecting, setIsDisconnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const handleDisconnect = async () => {
     setIsDisconnecting(true);
+    setError(null);
     try {
-      await fetch("/api/disconnect", {
+      const response = await fetch("/api/disconnect", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ provider }),
+        body: JSON.stringify({ provider, accountId }),
       });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}));
+        setError(error || "Failed to disconnect");
+        setIsDisconnecting(false);
+        return;
+      }
       window.location.reload();
     } catch (error) {
       console.error("Failed to disconnect:", error);
+      setError("Failed to disconnect");
       setIsDisconnecting(false);
     }
   };
 
   const handleConnect = () => {
-    const authUrl = `/api/oauth/${provider}/authorize`;
+    const authUrl = scopes?.length
+      ? getUpgradeUrl(provider, scopes, accountId)
+      : `/api/oauth/${provider}/authorize${addAccount ? "?add_account=1" : ""}`;
 
     if (!usePopup) {
       // Navigate in the same window
@@ -44,6 +65,7 @@ export function ConnectButton({
 
     // Open in popup
     setIsConnecting(true);
+    setError(null);
 
     const width = 600;
     const height = 700;
@@ -66,6 +88,14 @@ export function ConnectButton({
         popup?.close();
         window.location.reload();
       }
+
+      if (
+        event.data.type === "oauth-error" &&
+        event.data.provider === provider
+      ) {
+        popup?.close();
+        setError(event.data.error_description || event.data.error);
+      }
     };
 
     window.addEventListener("message", handleMessage);
@@ -79,24 +109,39 @@ export function ConnectButton({
     }, 500);
   };
 
-  if (isConnected) {
+  if (isConnected && !scopes?.length) {
     return (
-      <Button
-        size={"sm"}
-        onClick={handleDisconnect}
-        disabled={isDisconnecting}
-        variant={"destructive"}
-      >
-        {isDisconnecting && <Spinner />}
-        Disconnect
-      </Button>
+      <>
+        <Button
+          size={"sm"}
+          onClick={handleDisconnect}
+          disabled={isDisconnecting}
+          variant={"destructive"}
+        >
+          {isDisconnecting && <Spinner />}
+          Disconnect
+        </Button>
+        {error && <p className="text-destructive text-xs">{error}</p>}
+      </>
     );
   }
 
   return (
-    <Button size={"sm"} onClick={handleConnect} disabled={isConnecting}>
-      {isConnecting && <Spinner />}
-      Connect
-    </Button>
+    <>
+      <Button
+        size={"sm"}
+        onClick={handleConnect}
+        disabled={isConnecting}
+        variant={addAccount || scopes?.length ? "outline" : "default"}
+      >
+        {isConnecting && <Spinner />}
+        {scopes?.length
+          ? `Grant ${scopes.join(", ")}`
+          : addAccount
+            ? "Add account"
+            : "Connect"}
+      </Button>
+      {error && <p className="text-destructive text-xs">{error}</p>}
+    </>
   );
 }
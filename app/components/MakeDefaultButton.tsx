@@ -0,0 +1,57 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+
+interface MakeDefaultButtonProps {
+  provider: string;
+  accountId: string;
+}
+
+export function MakeDefaultButton({
+  provider,
+  accountId,
+}: MakeDefaultButtonProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setIsUpdating(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/oauth/${provider}/default`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accountId }),
+      });
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({}));
+        setError(error || "Failed to set default account");
+        setIsUpdating(false);
+        return;
+      }
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to set default account:", error);
+      setError("Failed to set default account");
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size={"sm"}
+        variant={"outline"}
+        onClick={handleClick}
+        disabled={isUpdating}
+      >
+        {isUpdating && <Spinner />}
+        Make default
+      </Button>
+      {error && <p className="text-destructive text-xs">{error}</p>}
+    </>
+  );
+}
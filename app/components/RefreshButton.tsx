@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+
+interface RefreshButtonProps {
+  provider: string;
+  accountId: string;
+  disabled?: boolean;
+}
+
+export function RefreshButton({
+  provider,
+  accountId,
+  disabled = false,
+}: RefreshButtonProps) {
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    setIsRefreshing(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/oauth/${provider}/refresh?account=${encodeURIComponent(accountId)}`,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        const { error } = await response.json();
+        setError(
+          error === "reauthorization_required"
+            ? "Connection expired. Please reconnect."
+            : error
+        );
+        setIsRefreshing(false);
+        return;
+      }
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to refresh token:", error);
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size={"sm"}
+        variant={"outline"}
+        onClick={handleClick}
+        disabled={disabled || isRefreshing}
+      >
+        {isRefreshing && <Spinner />}
+        Refresh
+      </Button>
+      {error && <p className="text-destructive text-xs">{error}</p>}
+    </>
+  );
+}
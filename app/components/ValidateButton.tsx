@@ -0,0 +1,41 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+
+interface ValidateButtonProps {
+  provider: string;
+  accountId: string;
+}
+
+export function ValidateButton({ provider, accountId }: ValidateButtonProps) {
+  const [isValidating, setIsValidating] = useState(false);
+
+  const handleClick = async () => {
+    setIsValidating(true);
+    try {
+      // The result is recorded on the connection and shown after reload
+      await fetch(
+        `/api/oauth/${provider}/token-info?account=${encodeURIComponent(accountId)}`
+      );
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to validate token:", error);
+      setIsValidating(false);
+    }
+  };
+
+  return (
+    <Button
+      size={"sm"}
+      variant={"outline"}
+      onClick={handleClick}
+      disabled={isValidating}
+    >
+      {isValidating && <Spinner />}
+      Validate
+    </Button>
+  );
+}
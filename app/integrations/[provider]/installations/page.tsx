@@ -0,0 +1,333 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { ConnectButton } from "@/app/components/ConnectButton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Item,
+  ItemActions,
+  ItemContent,
+  ItemDescription,
+  ItemGroup,
+  ItemSeparator,
+  ItemTitle,
+} from "@/components/ui/item";
+import {
+  getValidConnection,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
+import {
+  findUserInstallation,
+  getInstallUrl,
+  listInstallationRepositories,
+  listUserInstallations,
+  type GitHubInstallation,
+} from "@/lib/github-app";
+import {
+  GitHubApiError,
+  type GitHubPage,
+  type GitHubRepository,
+} from "@/lib/github-api";
+import { isEnabledProvider } from "@/lib/oauth-config";
+
+type SearchParams = {
+  account?: string;
+  installation?: string;
+  page?: string;
+  /** setup_action forwarded by the Setup URL route */
+  setup?: string;
+};
+
+function pageHref(
+  { account }: SearchParams,
+  installation?: number,
+  page?: number
+): string {
+  const params = new URLSearchParams();
+  if (account) params.set("account", account);
+  if (installation) params.set("installation", String(installation));
+  if (page && page > 1) params.set("page", String(page));
+  const query = params.toString();
+  return `/integrations/github-app/installations${query ? `?${query}` : ""}`;
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof GitHubApiError && error.rateLimited) {
+    return `GitHub rate limit exceeded. Try again in ${error.retryAfter} seconds.`;
+  }
+  if (error instanceof GitHubApiError) {
+    return error.message;
+  }
+  return "Failed to fetch data from GitHub.";
+}
+
+function describeSetup(
+  setup: string | undefined,
+  installation: GitHubInstallation | undefined
+): string | undefined {
+  switch (setup) {
+    case "install":
+      return installation
+        ? `Installed on ${installation.account.login}.`
+        : "The installation isn't accessible to this account.";
+    case "update":
+      return installation
+        ? `Updated the installation on ${installation.account.login}.`
+        : "The installation isn't accessible to this account.";
+    case "request":
+      return "Installation requested. An organization owner has to approve it.";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The GitHub App's installations accessible to the user, and the
+ * repositories it can act on in the selected one. The app's Setup URL
+ * redirects here after installing.
+ */
+export default async function InstallationsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ provider: string }>;
+  searchParams: Promise<SearchParams>;
+}) {
+  const { provider } = await params;
+  if (provider !== "github-app" || !isEnabledProvider(provider)) {
+    notFound();
+  }
+
+  const query = await searchParams;
+  const page = Math.max(1, Number(query.page) || 1);
+  const installUrl = getInstallUrl();
+
+  let connection;
+  try {
+    connection = await getValidConnection(provider, query.account);
+  } catch (error) {
+    if (!(error instanceof ReauthorizationRequiredError)) {
+      throw error;
+    }
+  }
+
+  if (!connection) {
+    return (
+      <div className="min-h-screen mx-5">
+        <div className="mx-auto py-8 space-y-8">
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            Installations
+          </h1>
+          <ItemGroup className="border">
+            <Item>
+              <ItemContent>
+                <ItemDescription>
+                  {query.installation
+                    ? "Connect the GitHub App to finish setting up the installation."
+                    : "Connect the GitHub App to list its installations."}
+                </ItemDescription>
+              </ItemContent>
+              <ItemActions>
+                <ConnectButton provider={provider} isConnected={false} />
+              </ItemActions>
+            </Item>
+          </ItemGroup>
+        </div>
+      </div>
+    );
+  }
+
+  const { accountId, accessToken } = connection;
+
+  let installations: GitHubInstallation[] = [];
+  let installationsError: string | undefined;
+  try {
+    installations = (await listUserInstallations(accessToken, { perPage: 100 }))
+      .data;
+  } catch (error) {
+    installationsError = describeError(error);
+  }
+
+  // Only installations the user's token can access are shown
+  const installationId = Number(query.installation) || undefined;
+  let selected: GitHubInstallation | undefined;
+  let repos: GitHubPage<GitHubRepository[]> | undefined;
+  let reposError: string | undefined;
+  if (installationId) {
+    try {
+      selected =
+        installations.find(({ id }) => id === installationId) ??
+        (await findUserInstallation(accessToken, installationId));
+      if (selected) {
+        repos = await listInstallationRepositories(selected.id, { page });
+      }
+    } catch (error) {
+      reposError = describeError(error);
+    }
+  }
+
+  const setupMessage = describeSetup(query.setup, selected);
+
+  return (
+    <div className="min-h-screen mx-5">
+      <div className="mx-auto py-8 space-y-8">
+        <div className="space-y-2">
+          <Link
+            href={`/integrations/${provider}?account=${encodeURIComponent(accountId)}`}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            ← {connection.profile?.username ?? provider}
+          </Link>
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            Installations
+          </h1>
+        </div>
+
+        {setupMessage && <p className="text-sm">{setupMessage}</p>}
+
+        {/* Installations */}
+        {installationsError && (
+          <p className="text-destructive text-sm">{installationsError}</p>
+        )}
+        <ItemGroup className="border">
+          {installations.length === 0 && !installationsError && (
+            <Item>
+              <ItemContent>
+                <ItemDescription>
+                  The app isn&apos;t installed on any account you can access.
+                </ItemDescription>
+              </ItemContent>
+            </Item>
+          )}
+          {installations.map((installation, i, arr) => (
+            <div key={installation.id}>
+              <Item size="sm">
+                <ItemContent>
+                  <ItemTitle>
+                    <Link
+                      href={pageHref(query, installation.id)}
+                      className="hover:underline"
+                    >
+                      {installation.account.login}
+                    </Link>
+                    <Badge variant="outline">{installation.account.type}</Badge>
+                    {installation.suspended_at && (
+                      <Badge variant="destructive">Suspended</Badge>
+                    )}
+                  </ItemTitle>
+                  <ItemDescription>
+                    {installation.repository_selection === "all"
+                      ? "All repositories"
+                      : "Selected repositories"}
+                  </ItemDescription>
+                </ItemContent>
+                <ItemActions>
+                  <Button size="sm" variant="outline" asChild>
+                    <a
+                      href={installation.html_url}
+                      target="_blank"
+                      rel="noreferrer"
+                    >
+                      Configure
+                    </a>
+                  </Button>
+                </ItemActions>
+              </Item>
+              {i < arr.length - 1 && <ItemSeparator />}
+            </div>
+          ))}
+          {installUrl && (
+            <>
+              {installations.length > 0 && <ItemSeparator />}
+              <Item size="sm">
+                <ItemContent>
+                  <ItemDescription>
+                    Install the app on another account or organization.
+                  </ItemDescription>
+                </ItemContent>
+                <ItemActions>
+                  <Button size="sm" asChild>
+                    <a href={installUrl}>Install</a>
+                  </Button>
+                </ItemActions>
+              </Item>
+            </>
+          )}
+        </ItemGroup>
+
+        {/* Repositories of the selected installation */}
+        {installationId && !selected && !reposError && (
+          <p className="text-destructive text-sm">
+            Installation {installationId} isn&apos;t accessible to this account.
+          </p>
+        )}
+        {reposError && <p className="text-destructive text-sm">{reposError}</p>}
+        {selected && repos && (
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">
+              Repositories on {selected.account.login}
+            </h2>
+            <ItemGroup className="border">
+              {repos.data.length === 0 && (
+                <Item>
+                  <ItemContent>
+                    <ItemDescription>No repositories.</ItemDescription>
+                  </ItemContent>
+                </Item>
+              )}
+              {repos.data.map((repo, i, arr) => (
+                <div key={repo.id}>
+                  <Item size="sm">
+                    <ItemContent>
+                      <ItemTitle>
+                        <a
+                          href={repo.html_url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="hover:underline"
+                        >
+                          {repo.full_name}
+                        </a>
+                        {repo.private && (
+                          <Badge variant="secondary">Private</Badge>
+                        )}
+                      </ItemTitle>
+                    </ItemContent>
+                  </Item>
+                  {i < arr.length - 1 && <ItemSeparator />}
+                </div>
+              ))}
+            </ItemGroup>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <div className="flex gap-2">
+                {repos.pagination.prev && (
+                  <Button size="sm" variant="outline" asChild>
+                    <Link
+                      href={pageHref(query, selected.id, repos.pagination.prev)}
+                    >
+                      Previous
+                    </Link>
+                  </Button>
+                )}
+                {repos.pagination.next && (
+                  <Button size="sm" variant="outline" asChild>
+                    <Link
+                      href={pageHref(query, selected.id, repos.pagination.next)}
+                    >
+                      Next
+                    </Link>
+                  </Button>
+                )}
+              </div>
+              <span>
+                Page {repos.pagination.page}
+                {repos.pagination.last && ` of ${repos.pagination.last}`}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+import Image from "next/image";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { ConnectButton } from "@/app/components/ConnectButton";
+import { MakeDefaultButton } from "@/app/components/MakeDefaultButton";
+import { RefreshButton } from "@/app/components/RefreshButton";
+import { ValidateButton } from "@/app/components/ValidateButton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Item,
+  ItemActions,
+  ItemContent,
+  ItemDescription,
+  ItemGroup,
+  ItemMedia,
+  ItemSeparator,
+  ItemTitle,
+} from "@/components/ui/item";
+import {
+  getValidConnection,
+  listConnections,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
+import { isOptimizableImage } from "@/lib/image-hosts";
+import { OAuthClient, type UserInfo } from "@/lib/oauth-client";
+import { getProviderConfig, isEnabledProvider } from "@/lib/oauth-config";
+import { missingScopes, parseScope } from "@/lib/scopes";
+
+function formatTime(epochMs: number) {
+  return (
+    <time dateTime={new Date(epochMs).toISOString()}>
+      {new Date(epochMs).toLocaleString("en-US", {
+        dateStyle: "medium",
+        timeStyle: "short",
+      })}
+    </time>
+  );
+}
+
+/**
+ * A labelled row of connection details
+ */
+function Detail({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <Item size="sm">
+      <ItemContent>
+        <ItemDescription>{label}</ItemDescription>
+        <ItemTitle className="wrap-anywhere">{children}</ItemTitle>
+      </ItemContent>
+    </Item>
+  );
+}
+
+export default async function IntegrationPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ provider: string }>;
+  searchParams: Promise<{ account?: string }>;
+}) {
+  const { provider } = await params;
+  if (!isEnabledProvider(provider)) {
+    notFound();
+  }
+
+  const { account } = await searchParams;
+  const accounts = await listConnections(provider);
+  const selected =
+    accounts.find(({ accountId }) => accountId === account) ??
+    accounts.find(({ isDefault }) => isDefault) ??
+    accounts[0];
+
+  // Expired access tokens are refreshed transparently
+  let connection = selected;
+  let userInfo: UserInfo | undefined;
+  let userInfoError: string | undefined;
+  let reauthorizationRequired = false;
+
+  if (selected) {
+    try {
+      connection =
+        (await getValidConnection(provider, selected.accountId)) ?? selected;
+      userInfo = await new OAuthClient(provider, connection.accessToken, {
+        idTokenClaims: connection.idTokenClaims,
+      }).getUserInfo();
+    } catch (error) {
+      if (error instanceof ReauthorizationRequiredError) {
+        reauthorizationRequired = true;
+      } else {
+        userInfoError = "Failed to fetch the profile from the provider.";
+      }
+    }
+  }
+
+  const scopes = parseScope(connection?.scope);
+  const { optionalScopes } = getProviderConfig(provider);
+  const upgradeScopes = missingScopes(scopes, optionalScopes);
+  const displayName =
+    userInfo?.name ||
+    userInfo?.username ||
+    userInfo?.email ||
+    connection?.profile?.name ||
+    connection?.accountId;
+
+  return (
+    <div className="min-h-screen mx-5">
+      <div className="mx-auto py-8 space-y-8">
+        <div className="space-y-2">
+          <Link
+            href="/"
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            ← OAuth Integrations
+          </Link>
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            {provider}
+          </h1>
+        </div>
+
+        {!connection && (
+          <ItemGroup className="border">
+            <Item>
+              <ItemContent>
+                <ItemDescription>Not connected.</ItemDescription>
+              </ItemContent>
+              <ItemActions className="flex flex-col items-end">
+                <ConnectButton provider={provider} isConnected={false} />
+              </ItemActions>
+            </Item>
+          </ItemGroup>
+        )}
+
+        {/* Account switcher */}
+        {accounts.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {accounts.map(({ accountId, profile, isDefault }) => (
+              <Link
+                key={accountId}
+                href={`/integrations/${provider}?account=${encodeURIComponent(accountId)}`}
+              >
+                <Badge
+                  variant={
+                    accountId === connection?.accountId ? "default" : "outline"
+                  }
+                >
+                  {profile?.name || profile?.username || accountId}
+                  {isDefault && " (default)"}
+                </Badge>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {connection && (
+          <>
+            {/* Profile */}
+            <ItemGroup className="border">
+              <Item>
+                <ItemMedia>
+                  {userInfo?.avatar_url &&
+                  isOptimizableImage(userInfo.avatar_url) ? (
+                    <Image
+                      src={userInfo.avatar_url}
+                      alt=""
+                      width={64}
+                      height={64}
+                      className="rounded-full"
+                    />
+                  ) : (
+                    <div className="flex size-16 items-center justify-center rounded-full bg-muted text-xl font-medium">
+                      {displayName?.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                </ItemMedia>
+                <ItemContent>
+                  <ItemTitle className="text-lg">
+                    {displayName}
+                    {connection.isDefault && (
+                      <Badge variant="secondary">Default</Badge>
+                    )}
+                  </ItemTitle>
+                  <ItemDescription>
+                    {reauthorizationRequired
+                      ? "Connection expired. Please reconnect."
+                      : (userInfoError ?? userInfo?.username)}
+                  </ItemDescription>
+                </ItemContent>
+                <ItemActions className="flex flex-col items-end">
+                  <div className="flex gap-2">
+                    {!connection.isDefault && (
+                      <MakeDefaultButton
+                        provider={provider}
+                        accountId={connection.accountId}
+                      />
+                    )}
+                    <ValidateButton
+                      provider={provider}
+                      accountId={connection.accountId}
+                    />
+                    <RefreshButton
+                      provider={provider}
+                      accountId={connection.accountId}
+                      disabled={!connection.refreshToken}
+                    />
+                    <ConnectButton
+                      provider={provider}
+                      accountId={connection.accountId}
+                      isConnected
+                    />
+                  </div>
+                </ItemActions>
+              </Item>
+
+              {userInfo && (
+                <>
+                  <ItemSeparator />
+                  <Detail label="Account ID">{userInfo.id}</Detail>
+                  {userInfo.email && (
+                    <Detail label="Email">
+                      {userInfo.email}
+                      {userInfo.email_verified !== undefined && (
+                        <Badge
+                          variant={
+                            userInfo.email_verified ? "secondary" : "outline"
+                          }
+                        >
+                          {userInfo.email_verified ? "Verified" : "Unverified"}
+                        </Badge>
+                      )}
+                    </Detail>
+                  )}
+                  {userInfo.organization && (
+                    <Detail label="Organization">
+                      {userInfo.organization.name ?? userInfo.organization.id}
+                    </Detail>
+                  )}
+                  {userInfo.locale && (
+                    <Detail label="Locale">{userInfo.locale}</Detail>
+                  )}
+                  {userInfo.profile_url && (
+                    <Detail label="Profile">
+                      <a
+                        href={userInfo.profile_url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="hover:underline"
+                      >
+                        {userInfo.profile_url}
+                      </a>
+                    </Detail>
+                  )}
+                </>
+              )}
+            </ItemGroup>
+
+            {provider === "github" && (
+              <Link
+                href={`/integrations/github/repos?account=${encodeURIComponent(connection.accountId)}`}
+                className="block text-sm hover:underline"
+              >
+                Organizations and repositories →
+              </Link>
+            )}
+            {provider === "github-app" && (
+              <Link
+                href={`/integrations/github-app/installations?account=${encodeURIComponent(connection.accountId)}`}
+                className="block text-sm hover:underline"
+              >
+                Installations and repositories →
+              </Link>
+            )}
+            {provider === "supabase" && (
+              <Link
+                href={`/integrations/supabase/projects?account=${encodeURIComponent(connection.accountId)}`}
+                className="block text-sm hover:underline"
+              >
+                Organizations and projects →
+              </Link>
+            )}
+
+            {/* Token */}
+            <ItemGroup className="border">
+              <Detail label="Granted scopes">
+                {scopes.length > 0 ? (
+                  <span className="flex flex-wrap gap-1">
+                    {scopes.map((scope) => (
+                      <Badge key={scope} variant="outline">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </span>
+                ) : (
+                  "Not reported by the provider"
+                )}
+              </Detail>
+              {upgradeScopes.length > 0 && (
+                <>
+                  <ItemSeparator />
+                  <Item size="sm">
+                    <ItemContent>
+                      <ItemDescription>Additional access</ItemDescription>
+                      <ItemTitle>
+                        Grant more scopes without disconnecting
+                      </ItemTitle>
+                    </ItemContent>
+                    <ItemActions>
+                      {upgradeScopes.map((scope) => (
+                        <ConnectButton
+                          key={scope}
+                          provider={provider}
+                          accountId={connection.accountId}
+                          isConnected
+                          scopes={[scope]}
+                        />
+                      ))}
+                    </ItemActions>
+                  </Item>
+                </>
+              )}
+              <ItemSeparator />
+              <Detail label="Issued">
+                {connection.issuedAt
+                  ? formatTime(connection.issuedAt)
+                  : "Unknown"}
+              </Detail>
+              <ItemSeparator />
+              <Detail label="Expires">
+                {connection.expiresAt
+                  ? formatTime(connection.expiresAt)
+                  : "Does not expire"}
+              </Detail>
+              <ItemSeparator />
+              <Detail label="Refresh token">
+                {connection.refreshToken ? "Available" : "Not issued"}
+              </Detail>
+              <ItemSeparator />
+              <Detail label="Last validation">
+                {connection.lastValidation ? (
+                  <>
+                    <Badge
+                      variant={
+                        connection.lastValidation.valid
+                          ? "secondary"
+                          : "destructive"
+                      }
+                    >
+                      {connection.lastValidation.valid ? "Valid" : "Invalid"}
+                    </Badge>
+                    {formatTime(connection.lastValidation.checkedAt)}
+                  </>
+                ) : (
+                  "Never validated"
+                )}
+              </Detail>
+            </ItemGroup>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { ConnectButton } from "@/app/components/ConnectButton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Item,
+  ItemActions,
+  ItemContent,
+  ItemDescription,
+  ItemGroup,
+  ItemSeparator,
+  ItemTitle,
+} from "@/components/ui/item";
+import {
+  getValidConnection,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import {
+  formatSupabaseStatus,
+  getProjectApiKeys,
+  listBranches,
+  listProjects,
+  SupabaseApiError,
+  type SupabaseApiKey,
+  type SupabaseBranch,
+} from "@/lib/supabase-api";
+
+function describeError(error: unknown): string {
+  if (error instanceof SupabaseApiError) {
+    return error.message;
+  }
+  return "Failed to fetch data from Supabase.";
+}
+
+/**
+ * API keys and database branches of a Supabase project
+ */
+export default async function ProjectPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ provider: string; ref: string }>;
+  searchParams: Promise<{ account?: string }>;
+}) {
+  const { provider, ref } = await params;
+  if (provider !== "supabase" || !isEnabledProvider(provider)) {
+    notFound();
+  }
+
+  const { account } = await searchParams;
+
+  let connection;
+  try {
+    connection = await getValidConnection(provider, account);
+  } catch (error) {
+    if (!(error instanceof ReauthorizationRequiredError)) {
+      throw error;
+    }
+  }
+
+  if (!connection) {
+    return (
+      <div className="min-h-screen mx-5">
+        <div className="mx-auto py-8 space-y-8">
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            Project
+          </h1>
+          <ItemGroup className="border">
+            <Item>
+              <ItemContent>
+                <ItemDescription>
+                  Connect Supabase to view this project.
+                </ItemDescription>
+              </ItemContent>
+              <ItemActions>
+                <ConnectButton provider={provider} isConnected={false} />
+              </ItemActions>
+            </Item>
+          </ItemGroup>
+        </div>
+      </div>
+    );
+  }
+
+  const { accountId, accessToken } = connection;
+
+  const project = (await listProjects(accessToken)).find(
+    ({ id }) => id === ref
+  );
+  if (!project) {
+    notFound();
+  }
+
+  let apiKeys: SupabaseApiKey[] = [];
+  let apiKeysError: string | undefined;
+  try {
+    apiKeys = await getProjectApiKeys(accessToken, ref);
+  } catch (error) {
+    apiKeysError = describeError(error);
+  }
+
+  let branches: SupabaseBranch[] = [];
+  let branchesError: string | undefined;
+  try {
+    branches = await listBranches(accessToken, ref);
+  } catch (error) {
+    branchesError = describeError(error);
+  }
+
+  return (
+    <div className="min-h-screen mx-5">
+      <div className="mx-auto py-8 space-y-8">
+        <div className="space-y-2">
+          <Link
+            href={`/integrations/${provider}/projects?account=${encodeURIComponent(accountId)}`}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            ← Projects
+          </Link>
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            {project.name}
+          </h1>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span className="font-mono">{project.id}</span>
+            <span>{project.region}</span>
+            {project.status && (
+              <Badge variant="outline">
+                {formatSupabaseStatus(project.status)}
+              </Badge>
+            )}
+          </div>
+        </div>
+
+        {/* API keys */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">API keys</h2>
+          {apiKeysError && (
+            <p className="text-destructive text-sm">{apiKeysError}</p>
+          )}
+          {!apiKeysError && (
+            <ItemGroup className="border">
+              {apiKeys.length === 0 && (
+                <Item>
+                  <ItemContent>
+                    <ItemDescription>No API keys.</ItemDescription>
+                  </ItemContent>
+                </Item>
+              )}
+              {apiKeys.map((apiKey, i, arr) => (
+                <div key={apiKey.name}>
+                  <Item size="sm">
+                    <ItemContent>
+                      <ItemTitle>{apiKey.name}</ItemTitle>
+                      <ItemDescription className="font-mono wrap-anywhere">
+                        {apiKey.api_key.replace(
+                          // mask all characters except first 7 and last 4
+                          /(.{7})(.*)(.{4})/,
+                          (_, p1, p2, p3) => p1 + "*".repeat(p2.length) + p3
+                        )}
+                      </ItemDescription>
+                    </ItemContent>
+                  </Item>
+                  {i < arr.length - 1 && <ItemSeparator />}
+                </div>
+              ))}
+            </ItemGroup>
+          )}
+        </div>
+
+        {/* Branches */}
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold">Branches</h2>
+          {branchesError && (
+            <p className="text-destructive text-sm">{branchesError}</p>
+          )}
+          {!branchesError && (
+            <ItemGroup className="border">
+              {branches.length === 0 && (
+                <Item>
+                  <ItemContent>
+                    <ItemDescription>
+                      Branching isn&apos;t enabled for this project.
+                    </ItemDescription>
+                  </ItemContent>
+                </Item>
+              )}
+              {branches.map((branch, i, arr) => (
+                <div key={branch.id}>
+                  <Item size="sm">
+                    <ItemContent>
+                      <ItemTitle>
+                        {branch.name}
+                        {branch.is_default && (
+                          <Badge variant="secondary">Default</Badge>
+                        )}
+                        {branch.status && (
+                          <Badge variant="outline">
+                            {formatSupabaseStatus(branch.status)}
+                          </Badge>
+                        )}
+                      </ItemTitle>
+                      <ItemDescription className="font-mono">
+                        {branch.project_ref}
+                        {branch.git_branch && ` · ${branch.git_branch}`}
+                      </ItemDescription>
+                    </ItemContent>
+                    <ItemActions className="text-xs text-muted-foreground">
+                      Updated{" "}
+                      {new Date(branch.updated_at).toLocaleDateString("en-US", {
+                        dateStyle: "medium",
+                      })}
+                    </ItemActions>
+                  </Item>
+                  {i < arr.length - 1 && <ItemSeparator />}
+                </div>
+              ))}
+            </ItemGroup>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { ConnectButton } from "@/app/components/ConnectButton";
+import { Badge } from "@/components/ui/badge";
+import {
+  Item,
+  ItemActions,
+  ItemContent,
+  ItemDescription,
+  ItemGroup,
+  ItemSeparator,
+  ItemTitle,
+} from "@/components/ui/item";
+import {
+  getValidConnection,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import {
+  formatSupabaseStatus,
+  listOrganizations,
+  listProjects,
+  SupabaseApiError,
+  type SupabaseOrganization,
+  type SupabaseProject,
+} from "@/lib/supabase-api";
+
+/**
+ * Supabase organizations of the connected user, with their projects
+ */
+export default async function ProjectsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ provider: string }>;
+  searchParams: Promise<{ account?: string }>;
+}) {
+  const { provider } = await params;
+  if (provider !== "supabase" || !isEnabledProvider(provider)) {
+    notFound();
+  }
+
+  const { account } = await searchParams;
+
+  let connection;
+  try {
+    connection = await getValidConnection(provider, account);
+  } catch (error) {
+    if (!(error instanceof ReauthorizationRequiredError)) {
+      throw error;
+    }
+  }
+
+  if (!connection) {
+    return (
+      <div className="min-h-screen mx-5">
+        <div className="mx-auto py-8 space-y-8">
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            Projects
+          </h1>
+          <ItemGroup className="border">
+            <Item>
+              <ItemContent>
+                <ItemDescription>
+                  Connect Supabase to list organizations and projects.
+                </ItemDescription>
+              </ItemContent>
+              <ItemActions>
+                <ConnectButton provider={provider} isConnected={false} />
+              </ItemActions>
+            </Item>
+          </ItemGroup>
+        </div>
+      </div>
+    );
+  }
+
+  const { accountId, accessToken } = connection;
+
+  let organizations: SupabaseOrganization[] = [];
+  let projects: SupabaseProject[] = [];
+  let error: string | undefined;
+  try {
+    [organizations, projects] = await Promise.all([
+      listOrganizations(accessToken),
+      listProjects(accessToken),
+    ]);
+  } catch (e) {
+    if (!(e instanceof SupabaseApiError)) {
+      throw e;
+    }
+    error = e.message;
+  }
+
+  return (
+    <div className="min-h-screen mx-5">
+      <div className="mx-auto py-8 space-y-8">
+        <div className="space-y-2">
+          <Link
+            href={`/integrations/${provider}?account=${encodeURIComponent(accountId)}`}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            ← {connection.profile?.username ?? provider}
+          </Link>
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            Projects
+          </h1>
+        </div>
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+        {!error && organizations.length === 0 && (
+          <p className="text-muted-foreground text-sm">No organizations.</p>
+        )}
+
+        {organizations.map((organization) => {
+          const organizationProjects = projects.filter(
+            (project) => project.organization_id === organization.id
+          );
+
+          return (
+            <div key={organization.id} className="space-y-4">
+              <h2 className="text-xl font-semibold">{organization.name}</h2>
+              <ItemGroup className="border">
+                {organizationProjects.length === 0 && (
+                  <Item>
+                    <ItemContent>
+                      <ItemDescription>No projects.</ItemDescription>
+                    </ItemContent>
+                  </Item>
+                )}
+                {organizationProjects.map((project, i, arr) => (
+                  <div key={project.id}>
+                    <Item size="sm" asChild>
+                      <Link
+                        href={`/integrations/supabase/projects/${encodeURIComponent(project.id)}?account=${encodeURIComponent(accountId)}`}
+                      >
+                        <ItemContent>
+                          <ItemTitle>
+                            {project.name}
+                            {project.status && (
+                              <Badge
+                                variant={
+                                  project.status === "ACTIVE_HEALTHY"
+                                    ? "secondary"
+                                    : "outline"
+                                }
+                              >
+                                {formatSupabaseStatus(project.status)}
+                              </Badge>
+                            )}
+                          </ItemTitle>
+                          <ItemDescription className="font-mono">
+                            {project.id}
+                          </ItemDescription>
+                        </ItemContent>
+                        <ItemActions className="text-xs text-muted-foreground">
+                          {project.region}
+                        </ItemActions>
+                      </Link>
+                    </Item>
+                    {i < arr.length - 1 && <ItemSeparator />}
+                  </div>
+                ))}
+              </ItemGroup>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
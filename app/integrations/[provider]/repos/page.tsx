@@ -0,0 +1,321 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import { ConnectButton } from "@/app/components/ConnectButton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Item,
+  ItemActions,
+  ItemContent,
+  ItemDescription,
+  ItemGroup,
+  ItemSeparator,
+  ItemTitle,
+} from "@/components/ui/item";
+import {
+  getValidConnection,
+  InsufficientScopeError,
+  ReauthorizationRequiredError,
+  requireScopes,
+} from "@/lib/access-token";
+import {
+  GitHubApiError,
+  listOrganizationRepositories,
+  listOrganizations,
+  listUserRepositories,
+  type GitHubOrganization,
+  type GitHubPage,
+  type GitHubRepository,
+} from "@/lib/github-api";
+import { isEnabledProvider } from "@/lib/oauth-config";
+import { parseScope } from "@/lib/scopes";
+
+type SearchParams = { account?: string; org?: string; page?: string };
+
+function pageHref(
+  { account, org }: SearchParams,
+  page?: number,
+  nextOrg = org
+): string {
+  const params = new URLSearchParams();
+  if (account) params.set("account", account);
+  if (nextOrg) params.set("org", nextOrg);
+  if (page && page > 1) params.set("page", String(page));
+  const query = params.toString();
+  return `/integrations/github/repos${query ? `?${query}` : ""}`;
+}
+
+function PageButton({
+  href,
+  children,
+}: {
+  href?: string;
+  children: React.ReactNode;
+}) {
+  if (!href) {
+    return (
+      <Button size="sm" variant="outline" disabled>
+        {children}
+      </Button>
+    );
+  }
+  return (
+    <Button size="sm" variant="outline" asChild>
+      <Link href={href}>{children}</Link>
+    </Button>
+  );
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof GitHubApiError && error.rateLimited) {
+    return `GitHub rate limit exceeded. Try again in ${error.retryAfter} seconds.`;
+  }
+  if (error instanceof GitHubApiError) {
+    return error.message;
+  }
+  return "Failed to fetch data from GitHub.";
+}
+
+/**
+ * The user's GitHub organizations and repositories
+ */
+export default async function RepositoriesPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ provider: string }>;
+  searchParams: Promise<SearchParams>;
+}) {
+  const { provider } = await params;
+  if (provider !== "github" || !isEnabledProvider(provider)) {
+    notFound();
+  }
+
+  const query = await searchParams;
+  const page = Math.max(1, Number(query.page) || 1);
+
+  let connection;
+  try {
+    connection = await getValidConnection(provider, query.account);
+  } catch (error) {
+    if (!(error instanceof ReauthorizationRequiredError)) {
+      throw error;
+    }
+  }
+
+  if (!connection) {
+    return (
+      <div className="min-h-screen mx-5">
+        <div className="mx-auto py-8 space-y-8">
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            Repositories
+          </h1>
+          <ItemGroup className="border">
+            <Item>
+              <ItemContent>
+                <ItemDescription>
+                  Connect GitHub to list repositories.
+                </ItemDescription>
+              </ItemContent>
+              <ItemActions>
+                <ConnectButton provider={provider} isConnected={false} />
+              </ItemActions>
+            </Item>
+          </ItemGroup>
+        </div>
+      </div>
+    );
+  }
+
+  const { accountId, accessToken } = connection;
+  const grantedScopes = parseScope(connection.scope);
+
+  // Organizations need read:org; repositories still load without it
+  let orgs: GitHubOrganization[] = [];
+  let orgsError: string | undefined;
+  let missingOrgScopes: string[] = [];
+  try {
+    await requireScopes(provider, ["read:org"], accountId);
+    orgs = (await listOrganizations(accessToken, { perPage: 100 })).data;
+  } catch (error) {
+    if (error instanceof InsufficientScopeError) {
+      missingOrgScopes = error.missing;
+    } else {
+      orgsError = describeError(error);
+    }
+  }
+
+  let repos: GitHubPage<GitHubRepository[]> | undefined;
+  let reposError: string | undefined;
+  try {
+    repos = query.org
+      ? await listOrganizationRepositories(accessToken, query.org, { page })
+      : await listUserRepositories(accessToken, { page });
+  } catch (error) {
+    reposError = describeError(error);
+  }
+
+  const rateLimit = repos?.rateLimit;
+
+  return (
+    <div className="min-h-screen mx-5">
+      <div className="mx-auto py-8 space-y-8">
+        <div className="space-y-2">
+          <Link
+            href={`/integrations/${provider}?account=${encodeURIComponent(accountId)}`}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            ← {connection.profile?.username ?? provider}
+          </Link>
+          <h1 className="text-3xl sm:text-5xl md:text-6xl font-bold tracking-tighter">
+            Repositories
+          </h1>
+        </div>
+
+        {/* Owners */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Link href={pageHref(query, 1, "")}>
+            <Badge variant={query.org ? "outline" : "default"}>
+              Your repositories
+            </Badge>
+          </Link>
+          {orgs.map(({ login }) => (
+            <Link key={login} href={pageHref(query, 1, login)}>
+              <Badge variant={query.org === login ? "default" : "outline"}>
+                {login}
+              </Badge>
+            </Link>
+          ))}
+          {orgsError && <p className="text-destructive text-xs">{orgsError}</p>}
+        </div>
+
+        {/* Scope upgrades */}
+        {(missingOrgScopes.length > 0 || !grantedScopes.includes("repo")) && (
+          <ItemGroup className="border">
+            {missingOrgScopes.length > 0 && (
+              <Item size="sm">
+                <ItemContent>
+                  <ItemTitle>Organizations</ItemTitle>
+                  <ItemDescription>
+                    {`Listing organizations requires ${missingOrgScopes.join(", ")}.`}
+                  </ItemDescription>
+                </ItemContent>
+                <ItemActions>
+                  <ConnectButton
+                    provider={provider}
+                    accountId={accountId}
+                    isConnected
+                    scopes={missingOrgScopes}
+                  />
+                </ItemActions>
+              </Item>
+            )}
+            {!grantedScopes.includes("repo") && (
+              <Item size="sm">
+                <ItemContent>
+                  <ItemTitle>Private repositories</ItemTitle>
+                  <ItemDescription>
+                    Only public repositories are listed without the repo scope.
+                  </ItemDescription>
+                </ItemContent>
+                <ItemActions>
+                  <ConnectButton
+                    provider={provider}
+                    accountId={accountId}
+                    isConnected
+                    scopes={["repo"]}
+                  />
+                </ItemActions>
+              </Item>
+            )}
+          </ItemGroup>
+        )}
+
+        {/* Repositories */}
+        {reposError && <p className="text-destructive text-sm">{reposError}</p>}
+        {repos && (
+          <ItemGroup className="border">
+            {repos.data.length === 0 && (
+              <Item>
+                <ItemContent>
+                  <ItemDescription>No repositories.</ItemDescription>
+                </ItemContent>
+              </Item>
+            )}
+            {repos.data.map((repo, i, arr) => (
+              <div key={repo.id}>
+                <Item size="sm">
+                  <ItemContent>
+                    <ItemTitle>
+                      <a
+                        href={repo.html_url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="hover:underline"
+                      >
+                        {repo.full_name}
+                      </a>
+                      {repo.private && (
+                        <Badge variant="secondary">Private</Badge>
+                      )}
+                    </ItemTitle>
+                    {repo.description && (
+                      <ItemDescription>{repo.description}</ItemDescription>
+                    )}
+                  </ItemContent>
+                  <ItemActions className="text-xs text-muted-foreground">
+                    {repo.language}
+                    <span>★ {repo.stargazers_count}</span>
+                  </ItemActions>
+                </Item>
+                {i < arr.length - 1 && <ItemSeparator />}
+              </div>
+            ))}
+          </ItemGroup>
+        )}
+
+        {/* Pagination */}
+        {repos && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <div className="flex gap-2">
+              <PageButton
+                href={
+                  repos.pagination.prev
+                    ? pageHref(query, repos.pagination.prev)
+                    : undefined
+                }
+              >
+                Previous
+              </PageButton>
+              <PageButton
+                href={
+                  repos.pagination.next
+                    ? pageHref(query, repos.pagination.next)
+                    : undefined
+                }
+              >
+                Next
+              </PageButton>
+            </div>
+            <span>
+              Page {repos.pagination.page}
+              {repos.pagination.last && ` of ${repos.pagination.last}`}
+            </span>
+            {rateLimit && (
+              <span>
+                {rateLimit.remaining}/{rateLimit.limit} requests left, resets{" "}
+                <time dateTime={new Date(rateLimit.reset * 1000).toISOString()}>
+                  {new Date(rateLimit.reset * 1000).toLocaleTimeString(
+                    "en-US",
+                    { timeStyle: "short" }
+                  )}
+                </time>
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { use, useEffect } from "react";
+
+// Friendlier messages for common OAuth error codes
+const ERROR_MESSAGES: Record<string, string> = {
+  access_denied: "You declined access.",
+  invalid_provider: "This provider is not available.",
+};
+
+export default function OAuthError({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ provider: string }>;
+  searchParams: Promise<{ error?: string; error_description?: string }>;
+}) {
+  const { provider } = use(params);
+  const { error = "server_error", error_description } = use(searchParams);
+
+  useEffect(() => {
+    // Send message to parent window
+    if (window.opener) {
+      window.opener.postMessage(
+        { type: "oauth-error", provider, error, error_description },
+        window.location.origin
+      );
+    }
+  }, [provider, error, error_description]);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-black">
+      <div className="text-center">
+        <h1 className="text-2xl font-semibold text-black dark:text-zinc-50">
+          Authorization failed
+        </h1>
+        <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+          {ERROR_MESSAGES[error] ?? error_description ?? error}
+        </p>
+        {error_description && ERROR_MESSAGES[error] && (
+          <p className="mt-1 text-sm text-zinc-500">{error_description}</p>
+        )}
+        <p className="mt-4 font-mono text-xs text-zinc-500">
+          {provider}: {error}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
-import { cookies } from "next/headers";
-
 import Link from "next/link";
 import { ConnectButton } from "./components/ConnectButton";
+import { MakeDefaultButton } from "./components/MakeDefaultButton";
 import {
   Item,
   ItemActions,
@@ -16,23 +15,50 @@ import {
 } from "@/components/ui/item";
 
 import React from "react";
-import { VALID_PROVIDERS, getProviderConfig } from "@/lib/oauth-config";
+import { Badge } from "@/components/ui/badge";
+import { getEnabledProviders } from "@/lib/oauth-config";
+import {
+  getValidConnection,
+  listConnections,
+  ReauthorizationRequiredError,
+} from "@/lib/access-token";
 
 export default async function Home() {
-  const cookieStore = await cookies();
-
-  const validProviders = VALID_PROVIDERS;
+  // Providers with incomplete configuration are disabled at boot
+  const validProviders = getEnabledProviders();
 
-  // Fetch data for all providers
+  // Fetch connected accounts for all providers
   const providerDataMap = await Promise.all(
     validProviders.map(async (provider) => {
-      const accessToken = cookieStore.get(provider + "_access_token")?.value;
-      const refreshToken = cookieStore.get(provider + "_refresh_token")?.value;
-      return {
-        provider,
-        accessToken: accessToken,
-        refreshToken: refreshToken,
-      };
+      const connections = await listConnections(provider);
+
+      const accounts = await Promise.all(
+        connections.map(async ({ accountId, profile, isDefault }) => {
+          try {
+            // Expired access tokens are refreshed transparently
+            const connection = await getValidConnection(provider, accountId);
+            return {
+              accountId,
+              profile,
+              isDefault,
+              accessToken: connection?.accessToken,
+              reauthorizationRequired: false,
+            };
+          } catch (error) {
+            if (!(error instanceof ReauthorizationRequiredError)) {
+              throw error;
+            }
+            return {
+              accountId,
+              profile,
+              isDefault,
+              reauthorizationRequired: true,
+            };
+          }
+        })
+      );
+
+      return { provider, accounts };
     })
   );
 
@@ -46,37 +72,92 @@ export default async function Home() {
 
         {/* Integration Items */}
         <ItemGroup className="border mx-auto">
-          {providerDataMap.map(
-            ({ provider, accessToken, refreshToken }, i, arr) => {
-              return (
-                <React.Fragment key={provider}>
-                  <Item key={provider}>
-                    {/* <ItemHeader>{provider.name}</ItemHeader> */}
-                    <ItemContent>
-                      <ItemTitle>{provider}</ItemTitle>
-                      <ItemDescription className="font-mono wrap-anywhere">
-                        {!accessToken
-                          ? "Not connected."
-                          : accessToken.replace(
-                              // mask all characters except first 7 and last 4
-                              /(.{7})(.*)(.{4})/,
-                              (_, p1, p2, p3) => p1 + "*".repeat(p2.length) + p3
-                            )}
-                      </ItemDescription>
-                    </ItemContent>
-                    <ItemActions className="flex flex-col items-end">
-                      <ConnectButton
-                        provider={provider}
-                        isConnected={!!accessToken}
-                      />
-                    </ItemActions>
-                  </Item>
-                  {i < arr.length - 1 && <ItemSeparator />}
-                </React.Fragment>
-              );
-            }
-          )}
+          {providerDataMap.map(({ provider, accounts }, i, arr) => {
+            return (
+              <React.Fragment key={provider}>
+                <Item>
+                  <ItemContent>
+                    <ItemTitle>
+                      <Link
+                        href={`/integrations/${provider}`}
+                        className="hover:underline"
+                      >
+                        {provider}
+                      </Link>
+                    </ItemTitle>
+                    {accounts.length === 0 && (
+                      <ItemDescription>Not connected.</ItemDescription>
+                    )}
+                  </ItemContent>
+                  <ItemActions className="flex flex-col items-end">
+                    <ConnectButton
+                      provider={provider}
+                      isConnected={false}
+                      addAccount={accounts.length > 0}
+                    />
+                  </ItemActions>
+
+                  {/* Connected accounts */}
+                  {accounts.map((account) => (
+                    <Item
+                      key={account.accountId}
+                      variant="muted"
+                      size="sm"
+                      className="basis-full"
+                    >
+                      <ItemContent>
+                        <ItemTitle>
+                          <Link
+                            href={`/integrations/${provider}?account=${encodeURIComponent(account.accountId)}`}
+                            className="hover:underline"
+                          >
+                            {account.profile?.name ||
+                              account.profile?.username ||
+                              account.profile?.email ||
+                              account.accountId}
+                          </Link>
+                          {account.isDefault && (
+                            <Badge variant="secondary">Default</Badge>
+                          )}
+                        </ItemTitle>
+                        <ItemDescription className="font-mono wrap-anywhere">
+                          {account.reauthorizationRequired
+                            ? "Connection expired. Please reconnect."
+                            : !account.accessToken
+                            ? "Not connected."
+                            : account.accessToken.replace(
+                                // mask all characters except first 7 and last 4
+                                /(.{7})(.*)(.{4})/,
+                                (_, p1, p2, p3) =>
+                                  p1 + "*".repeat(p2.length) + p3
+                              )}
+                        </ItemDescription>
+                      </ItemContent>
+                      <ItemActions>
+                        {!account.isDefault && (
+                          <MakeDefaultButton
+                            provider={provider}
+                            accountId={account.accountId}
+                          />
+                        )}
+                        <ConnectButton
+                          provider={provider}
+                          accountId={account.accountId}
+                          isConnected
+                        />
+                      </ItemActions>
+                    </Item>
+                  ))}
+                </Item>
+                {i < arr.length - 1 && <ItemSeparator />}
+              </React.Fragment>
+            );
+          })}
         </ItemGroup>
+
+        <Link href="/chat" className="block text-sm hover:underline">
+          Chat with your connected accounts →
+        </Link>
       </div>
     </div>
   );
@@ -4,6 +4,7 @@ import {
   SidebarFooter,
   SidebarGroup,
   SidebarGroupContent,
+  SidebarGroupLabel,
   SidebarHeader,
   SidebarMenu,
   SidebarMenuButton,
@@ -18,6 +19,8 @@ import {
 
 import { Home, Rows4 } from "lucide-react";
 
+import { getEnabledProviders } from "@/lib/oauth-config";
+
 // Menu items.
 const items = [
   {
@@ -56,6 +59,23 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
+        <SidebarGroup>
+          <SidebarGroupLabel>Integrations</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {getEnabledProviders().map((provider) => (
+                <SidebarMenuItem key={provider}>
+                  <SidebarMenuButton asChild>
+                    <a href={`/integrations/${provider}`}>
+                      <Rows4 />
+                      <span>{provider}</span>
+                    </a>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
       </SidebarContent>
       <SidebarFooter />
       {/* <SidebarRail /> */}
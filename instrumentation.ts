@@ -0,0 +1,19 @@
+/**
+ * Runs once when the server boots
+ * https://nextjs.org/docs/app/guides/instrumentation
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { validateProviderEnvironment } = await import("./lib/oauth-config");
+    const { getEncryptionKeys } = await import("./lib/seal");
+
+    // Sessions and stored tokens can't be sealed without a key, so fail early
+    getEncryptionKeys();
+
+    // Report all provider configuration issues up front.
+    // Set OAUTH_STRICT_CONFIG=true to refuse to boot instead of disabling providers.
+    validateProviderEnvironment({
+      strict: process.env.OAUTH_STRICT_CONFIG === "true",
+    });
+  }
+}
@@ -0,0 +1,315 @@
+import "server-only";
+import { cookies } from "next/headers";
+import * as oauth from "oauth4webapi";
+
+import { OAuthClient } from "./oauth-client";
+import { getProviderDefinition, type Provider } from "./oauth-config";
+import { getUpgradeUrl, missingScopes, parseScope } from "./scopes";
+import { getSessionId } from "./session";
+import { getTokenStore, type StoredConnection } from "./token-store";
+
+// Refresh slightly early so tokens don't expire mid-request
+const EXPIRY_LEEWAY_MS = 60 * 1000;
+
+/**
+ * Convert a token response's relative expires_in to an absolute timestamp
+ */
+export function getExpiresAt(expiresIn: number | undefined) {
+  return expiresIn === undefined ? undefined : Date.now() + expiresIn * 1000;
+}
+
+/**
+ * Tokens without a known expiry (e.g. GitHub OAuth Apps) never expire here
+ */
+export function isExpired(connection: StoredConnection): boolean {
+  return (
+    connection.expiresAt !== undefined &&
+    connection.expiresAt - EXPIRY_LEEWAY_MS <= Date.now()
+  );
+}
+
+/**
+ * The provider rejected the refresh token, e.g. because a rotated refresh
+ * token was reused. The user has to connect again.
+ */
+export class ReauthorizationRequiredError extends Error {
+  provider: Provider;
+  accountId: string;
+
+  constructor(
+    provider: Provider,
+    accountId: string,
+    options?: { cause?: unknown }
+  ) {
+    super(`Reauthorization required for ${provider} (${accountId})`, options);
+    this.name = "ReauthorizationRequiredError";
+    this.provider = provider;
+    this.accountId = accountId;
+  }
+}
+
+/**
+ * The connection wasn't granted scopes a feature needs.
+ * The user can upgrade it via `upgradeUrl` without disconnecting.
+ */
+export class InsufficientScopeError extends Error {
+  provider: Provider;
+  accountId?: string;
+  required: string[];
+  missing: string[];
+
+  constructor(
+    provider: Provider,
+    accountId: string | undefined,
+    required: string[],
+    missing: string[]
+  ) {
+    super(`Missing ${provider} scopes: ${missing.join(", ")}`);
+    this.name = "InsufficientScopeError";
+    this.provider = provider;
+    this.accountId = accountId;
+    this.required = required;
+    this.missing = missing;
+  }
+
+  get upgradeUrl(): string {
+    return getUpgradeUrl(this.provider, this.missing, this.accountId);
+  }
+
+  /**
+   * RFC 6750 Section 3 challenge for the 403 response
+   */
+  get challenge(): string {
+    return `Bearer error="insufficient_scope", scope="${this.required.join(" ")}"`;
+  }
+
+  /**
+   * Response body telling the client which scopes to request
+   */
+  toJSON() {
+    return {
+      error: "insufficient_scope",
+      provider: this.provider,
+      account: this.accountId ?? null,
+      required_scopes: this.required,
+      missing_scopes: this.missing,
+      upgrade_url: this.upgradeUrl,
+    };
+  }
+}
+
+// In-flight refreshes keyed by session + provider + account. This only
+// coordinates requests within one server process.
+const inflightRefreshes = new Map<string, Promise<StoredConnection>>();
+
+/**
+ * Exchange the connection's refresh token and persist the new tokens.
+ *
+ * Concurrent callers for the same session and account share a single
+ * refresh, so rotating refresh tokens (Supabase, Clerk) are only used once.
+ */
+export function refreshConnection(
+  sessionId: string,
+  connection: StoredConnection
+): Promise<StoredConnection> {
+  const key = `${sessionId}:${connection.provider}:${connection.accountId}`;
+
+  let refresh = inflightRefreshes.get(key);
+  if (!refresh) {
+    refresh = performRefresh(sessionId, connection).finally(() => {
+      inflightRefreshes.delete(key);
+    });
+    inflightRefreshes.set(key, refresh);
+  }
+  return refresh;
+}
+
+async function performRefresh(
+  sessionId: string,
+  connection: StoredConnection
+): Promise<StoredConnection> {
+  const { provider, accountId } = connection;
+  const store = getTokenStore();
+
+  // A previous refresh may have already rotated the caller's refresh token
+  const current = await store.get(sessionId, provider, accountId);
+  if (!current) {
+    throw new Error(`Connection to ${provider} was removed`);
+  }
+  if (current.reauthorizationRequired) {
+    throw new ReauthorizationRequiredError(provider, accountId);
+  }
+  if (current.refreshToken !== connection.refreshToken && !isExpired(current)) {
+    return current;
+  }
+  if (!current.refreshToken) {
+    throw new Error(`No refresh token available for ${provider}`);
+  }
+
+  let tokenResponse: oauth.TokenEndpointResponse;
+  try {
+    tokenResponse = await OAuthClient.refreshAccessToken(
+      provider,
+      current.refreshToken
+    );
+  } catch (error) {
+    // invalid_grant: the refresh token was revoked, expired or reused
+    if (
+      error instanceof oauth.ResponseBodyError &&
+      error.error === "invalid_grant"
+    ) {
+      await store.update(sessionId, provider, accountId, {
+        reauthorizationRequired: true,
+      });
+      throw new ReauthorizationRequiredError(provider, accountId, {
+        cause: error,
+      });
+    }
+    throw error;
+  }
+
+  const { selectConnectionToken } = getProviderDefinition(provider);
+  const tokens = selectConnectionToken?.(tokenResponse) ?? tokenResponse;
+
+  // The refresh token and ID token claims are only replaced if new ones were issued
+  const updated = await store.update(sessionId, provider, accountId, {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token,
+    idTokenClaims: oauth.getValidatedIdTokenClaims(tokenResponse),
+    expiresAt: getExpiresAt(tokens.expires_in),
+    issuedAt: Date.now(),
+    scope: tokens.scope,
+  });
+
+  if (!updated) {
+    throw new Error(`Connection to ${provider} was removed`);
+  }
+  return updated;
+}
+
+/**
+ * Get the current session's connection to a provider account (the default
+ * account when omitted), transparently refreshing an expired access token.
+ * Returns undefined when not connected or when the token expired and
+ * couldn't be refreshed.
+ *
+ * Throws ReauthorizationRequiredError if the provider rejected the refresh token.
+ */
+export async function getValidConnection(
+  provider: Provider,
+  accountId?: string
+): Promise<StoredConnection | undefined> {
+  const sessionId = getSessionId(await cookies());
+  if (!sessionId) {
+    return undefined;
+  }
+
+  const connection = await getTokenStore().get(sessionId, provider, accountId);
+  if (connection?.reauthorizationRequired) {
+    throw new ReauthorizationRequiredError(provider, connection.accountId);
+  }
+  if (!connection || !isExpired(connection)) {
+    return connection;
+  }
+
+  if (!connection.refreshToken) {
+    return undefined;
+  }
+
+  try {
+    return await refreshConnection(sessionId, connection);
+  } catch (error) {
+    if (error instanceof ReauthorizationRequiredError) {
+      throw error;
+    }
+    console.error(`Error refreshing expired token for ${provider}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Get a usable access token for a provider account (the default account
+ * when omitted), refreshing it if expired
+ */
+export async function getValidAccessToken(
+  provider: Provider,
+  accountId?: string
+): Promise<string | undefined> {
+  return (await getValidConnection(provider, accountId))?.accessToken;
+}
+
+/**
+ * List the current session's connected accounts for a provider
+ */
+export async function listConnections(
+  provider: Provider
+): Promise<StoredConnection[]> {
+  const sessionId = getSessionId(await cookies());
+  return sessionId ? getTokenStore().list(sessionId, provider) : [];
+}
+
+/**
+ * Remember the outcome of the latest token validation for an account
+ */
+export async function recordValidation(
+  provider: Provider,
+  accountId: string,
+  valid: boolean
+): Promise<void> {
+  const sessionId = getSessionId(await cookies());
+  if (!sessionId) {
+    return;
+  }
+  await getTokenStore().update(sessionId, provider, accountId, {
+    lastValidation: { valid, checkedAt: Date.now() },
+  });
+}
+
+/**
+ * Whether a provider account (the default account when omitted) can be used
+ * with all of `scopes`: the same checks as requireScopes, without throwing.
+ * False when the account isn't connected or has to be reauthorized.
+ */
+export async function hasScopes(
+  provider: Provider,
+  scopes: string[],
+  accountId?: string
+): Promise<boolean> {
+  try {
+    return (await requireScopes(provider, scopes, accountId)) !== undefined;
+  } catch (error) {
+    if (
+      error instanceof InsufficientScopeError ||
+      error instanceof ReauthorizationRequiredError
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Like getValidConnection, but throws InsufficientScopeError when the
+ * connection lacks any of `scopes`
+ */
+export async function requireScopes(
+  provider: Provider,
+  scopes: string[],
+  accountId?: string
+): Promise<StoredConnection | undefined> {
+  const connection = await getValidConnection(provider, accountId);
+  if (!connection) {
+    return undefined;
+  }
+
+  const missing = missingScopes(parseScope(connection.scope), scopes);
+  if (missing.length > 0) {
+    throw new InsufficientScopeError(
+      provider,
+      connection.accountId,
+      scopes,
+      missing
+    );
+  }
+  return connection;
+}
@@ -0,0 +1,35 @@
+import "server-only";
+import { anthropic } from "@ai-sdk/anthropic";
+import { openai } from "@ai-sdk/openai";
+import { createProviderRegistry, type LanguageModel } from "ai";
+
+// Providers read ANTHROPIC_API_KEY and OPENAI_API_KEY
+const registry = createProviderRegistry({ anthropic, openai });
+
+/**
+ * CHAT_MODEL doesn't name a model of a registered provider
+ */
+export class ChatModelConfigurationError extends Error {
+  constructor(id: string) {
+    super(
+      `Invalid CHAT_MODEL "${id}": expected anthropic:<model> or openai:<model>`
+    );
+    this.name = "ChatModelConfigurationError";
+  }
+}
+
+/**
+ * The model behind /api/chat, from CHAT_MODEL: `provider:model` such as
+ * `anthropic:claude-sonnet-4-5` or `openai:gpt-5-mini`. Undefined when
+ * unset; throws ChatModelConfigurationError for any other value.
+ */
+export function getChatModel(): LanguageModel | undefined {
+  const id = process.env.CHAT_MODEL;
+  if (!id) {
+    return undefined;
+  }
+  if (!/^(anthropic|openai):.+$/.test(id)) {
+    throw new ChatModelConfigurationError(id);
+  }
+  return registry.languageModel(id as `${"anthropic" | "openai"}:${string}`);
+}
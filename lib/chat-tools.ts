@@ -0,0 +1,465 @@
+import "server-only";
+import { jsonSchema, tool, type Schema, type ToolSet } from "ai";
+
+import {
+  getValidConnection,
+  ReauthorizationRequiredError,
+} from "./access-token";
+import {
+  findUserInstallation,
+  listInstallationRepositories,
+  listUserInstallations,
+} from "./github-app";
+import {
+  listOrganizationRepositories,
+  listOrganizations as listGitHubOrganizations,
+  listUserRepositories,
+  type GitHubRepository,
+} from "./github-api";
+import { getEnabledProviders, type Provider } from "./oauth-config";
+import { missingScopes, parseScope } from "./scopes";
+import { listChannels, listUsers, SlackApiError } from "./slack-api";
+import { getConnectedInstallation } from "./slack-installations";
+import {
+  listBranches,
+  listOrganizations as listSupabaseOrganizations,
+  listProjects,
+} from "./supabase-api";
+import type { StoredConnection } from "./token-store";
+
+/**
+ * A tool the chat model can call with the user's connection to a provider
+ */
+interface IntegrationTool<INPUT> {
+  provider: Provider;
+  /**
+   * Scopes the connection must have been granted. Slack tools use the
+   * workspace's bot token, so they're checked against the bot's scopes.
+   */
+  scopes?: string[];
+  description: string;
+  inputSchema: Schema<INPUT>;
+  execute: (input: INPUT, connection: StoredConnection) => Promise<unknown>;
+}
+
+/**
+ * Keep the tool's input type while listing tools of different inputs
+ */
+function integrationTool<INPUT>(
+  definition: IntegrationTool<INPUT>
+): IntegrationTool<unknown> {
+  return definition as IntegrationTool<unknown>;
+}
+
+// Tool results go back to the model, so they only carry the fields it
+// needs to answer
+function summarizeRepository(repo: GitHubRepository) {
+  return {
+    full_name: repo.full_name,
+    private: repo.private,
+    description: repo.description,
+    language: repo.language,
+    stars: repo.stargazers_count,
+    updated_at: repo.updated_at,
+    url: repo.html_url,
+  };
+}
+
+const pageSchema = {
+  type: "integer",
+  minimum: 1,
+  description: "1-based page",
+} as const;
+
+/**
+ * The workspace installation a Slack connection points at
+ */
+async function getSlackBotToken(connection: StoredConnection) {
+  const workspaceId = connection.profile?.organization?.id;
+  const installation = workspaceId
+    ? await getConnectedInstallation(workspaceId)
+    : undefined;
+  if (!installation?.bot) {
+    throw new Error("The Slack app isn't installed in this workspace");
+  }
+  return installation.bot.token;
+}
+
+// MARK: Tools
+
+const INTEGRATION_TOOLS: Record<string, IntegrationTool<unknown>> = {
+  github_list_repositories: integrationTool<{ page?: number }>({
+    provider: "github",
+    description:
+      "List the GitHub user's own repositories, most recently updated first. Private ones are only included with the repo scope.",
+    inputSchema: jsonSchema({
+      type: "object",
+      properties: { page: pageSchema },
+    }),
+    execute: async ({ page }, { accessToken }) => {
+      const { data, pagination } = await listUserRepositories(accessToken, {
+        page,
+      });
+      return { repositories: data.map(summarizeRepository), pagination };
+    },
+  }),
+  github_list_organizations: integrationTool<Record<string, never>>({
+    provider: "github",
+    scopes: ["read:org"],
+    description: "List the GitHub organizations the user belongs to.",
+    inputSchema: jsonSchema({ type: "object", properties: {} }),
+    execute: async (input, { accessToken }) => {
+      const { data } = await listGitHubOrganizations(accessToken, {
+        perPage: 100,
+      });
+      return data.map(({ login, description }) => ({ login, description }));
+    },
+  }),
+  github_list_organization_repositories: integrationTool<{
+    org: string;
+    page?: number;
+  }>({
+    provider: "github",
+    scopes: ["read:org"],
+    description: "List the repositories of a GitHub organization.",
+    inputSchema: jsonSchema({
+      type: "object",
+      properties: {
+        org: { type: "string", description: "Organization login" },
+        page: pageSchema,
+      },
+      required: ["org"],
+    }),
+    execute: async ({ org, page }, { accessToken }) => {
+      const { data, pagination } = await listOrganizationRepositories(
+        accessToken,
+        org,
+        { page }
+      );
+      return { repositories: data.map(summarizeRepository), pagination };
+    },
+  }),
+  github_app_list_installations: integrationTool<Record<string, never>>({
+    provider: "github-app",
+    description:
+      "List the accounts and organizations the GitHub App is installed on that the user can access.",
+    inputSchema: jsonSchema({ type: "object", properties: {} }),
+    execute: async (input, { accessToken }) => {
+      const { data } = await listUserInstallations(accessToken, {
+        perPage: 100,
+      });
+      return data.map(({ id, account, repository_selection }) => ({
+        id,
+        account: account.login,
+        type: account.type,
+        repository_selection,
+      }));
+    },
+  }),
+  github_app_list_installation_repositories: integrationTool<{
+    installationId: number;
+    page?: number;
+  }>({
+    provider: "github-app",
+    description:
+      "List the repositories the GitHub App can act on in one of its installations.",
+    inputSchema: jsonSchema({
+      type: "object",
+      properties: {
+        installationId: {
+          type: "integer",
+          description: "ID from github_app_list_installations",
+        },
+        page: pageSchema,
+      },
+      required: ["installationId"],
+    }),
+    execute: async ({ installationId, page }, { accessToken }) => {
+      // Installation tokens reach every repository of the installation
+      if (!(await findUserInstallation(accessToken, installationId))) {
+        throw new Error(`Installation ${installationId} isn't accessible`);
+      }
+      const { data, pagination } = await listInstallationRepositories(
+        installationId,
+        { page }
+      );
+      return { repositories: data.map(summarizeRepository), pagination };
+    },
+  }),
+  supabase_list_organizations: integrationTool<Record<string, never>>({
+    provider: "supabase",
+    description: "List the user's Supabase organizations.",
+    inputSchema: jsonSchema({ type: "object", properties: {} }),
+    execute: (input, { accessToken }) => listSupabaseOrganizations(accessToken),
+  }),
+  supabase_list_projects: integrationTool<{ organizationId?: string }>({
+    provider: "supabase",
+    description:
+      "List the user's Supabase projects with their region and status, optionally for one organization.",
+    inputSchema: jsonSchema({
+      type: "object",
+      properties: {
+        organizationId: {
+          type: "string",
+          description: "ID from supabase_list_organizations",
+        },
+      },
+    }),
+    execute: async ({ organizationId }, { accessToken }) => {
+      const projects = await listProjects(accessToken, organizationId);
+      return projects.map(({ id, organization_id, name, region, status }) => ({
+        ref: id,
+        organization_id,
+        name,
+        region,
+        status,
+      }));
+    },
+  }),
+  // API keys are deliberately not offered: tool results are sent to the model
+  supabase_list_branches: integrationTool<{ projectRef: string }>({
+    provider: "supabase",
+    description: "List the database branches of a Supabase project.",
+    inputSchema: jsonSchema({
+      type: "object",
+      properties: {
+        projectRef: {
+          type: "string",
+          description: "Project ref from supabase_list_projects",
+        },
+      },
+      required: ["projectRef"],
+    }),
+    execute: async ({ projectRef }, { accessToken }) => {
+      const branches = await listBranches(accessToken, projectRef);
+      return branches.map(({ name, git_branch, is_default, status }) => ({
+        name,
+        git_branch,
+        is_default,
+        status,
+      }));
+    },
+  }),
+  slack_list_channels: integrationTool<{ cursor?: string }>({
+    provider: "slack",
+    scopes: ["channels:read"],
+    description:
+      "List the public channels of the connected Slack workspace. Pass nextCursor back as cursor for more.",
+    inputSchema: jsonSchema({
+      type: "object",
+      properties: { cursor: { type: "string" } },
+    }),
+    execute: async ({ cursor }, connection) => {
+      const { data, nextCursor } = await listChannels(
+        await getSlackBotToken(connection),
+        { cursor, limit: 100 }
+      );
+      return {
+        channels: data.map(({ id, name, num_members, topic, purpose }) => ({
+          id,
+          name,
+          members: num_members,
+          topic: topic?.value || undefined,
+          purpose: purpose?.value || undefined,
+        })),
+        nextCursor,
+      };
+    },
+  }),
+  slack_list_users: integrationTool<{ cursor?: string }>({
+    provider: "slack",
+    scopes: ["users:read"],
+    description:
+      "List the members of the connected Slack workspace. Pass nextCursor back as cursor for more.",
+    inputSchema: jsonSchema({
+      type: "object",
+      properties: { cursor: { type: "string" } },
+    }),
+    execute: async ({ cursor }, connection) => {
+      const { data, nextCursor } = await listUsers(
+        await getSlackBotToken(connection),
+        { cursor, limit: 100 }
+      );
+      return {
+        users: data
+          .filter((user) => !user.deleted)
+          .map(({ id, name, real_name, is_bot, is_admin }) => ({
+            id,
+            name,
+            real_name,
+            is_bot,
+            is_admin,
+          })),
+        nextCursor,
+      };
+    },
+  }),
+};
+
+// MARK: Availability
+
+export type ToolStatus =
+  | "available"
+  | "not_connected"
+  | "reauthorization_required"
+  | "missing_scopes"
+  /** The Slack app's bot token can't be refreshed */
+  | "reinstall_required"
+  /** The connection couldn't be loaded, e.g. the store failed */
+  | "unavailable";
+
+export interface ToolAvailability {
+  name: string;
+  provider: Provider;
+  description: string;
+  status: ToolStatus;
+  accountId?: string;
+  /** Scopes to grant, for `missing_scopes` */
+  missingScopes?: string[];
+}
+
+/**
+ * Scopes the tools of a provider can rely on
+ */
+async function getGrantedScopes(
+  connection: StoredConnection
+): Promise<string[]> {
+  if (connection.provider === "slack") {
+    const workspaceId = connection.profile?.organization?.id;
+    const installation = workspaceId
+      ? await getConnectedInstallation(workspaceId)
+      : undefined;
+    return installation?.bot?.scopes ?? [];
+  }
+  return parseScope(connection.scope);
+}
+
+/**
+ * Tools for the session's connections: each enabled provider's default
+ * account, refreshed if needed. Tools of providers that aren't connected,
+ * or whose connection lacks their scopes or fails to load, are left out
+ * and reported.
+ */
+export async function getConnectionTools(): Promise<{
+  tools: ToolSet;
+  availability: ToolAvailability[];
+}> {
+  const enabled = getEnabledProviders();
+  const connections = new Map<
+    Provider,
+    { connection?: StoredConnection; granted: string[]; failure?: ToolStatus }
+  >();
+
+  for (const provider of new Set(
+    Object.values(INTEGRATION_TOOLS).map(({ provider }) => provider)
+  )) {
+    if (!enabled.includes(provider)) {
+      continue;
+    }
+    let connection: StoredConnection | undefined;
+    try {
+      connection = await getValidConnection(provider);
+      connections.set(provider, {
+        connection,
+        granted: connection ? await getGrantedScopes(connection) : [],
+      });
+    } catch (error) {
+      // Only this provider's tools are unavailable; the others still work
+      if (!(error instanceof ReauthorizationRequiredError)) {
+        console.error(`Could not load the ${provider} connection:`, error);
+      }
+      connections.set(provider, {
+        connection,
+        granted: [],
+        failure: getFailureStatus(error),
+      });
+    }
+  }
+
+  const tools: ToolSet = {};
+  const availability: ToolAvailability[] = [];
+
+  for (const [name, definition] of Object.entries(INTEGRATION_TOOLS)) {
+    const entry = connections.get(definition.provider);
+    if (!entry) {
+      continue;
+    }
+    const { connection, granted, failure } = entry;
+    const missing = missingScopes(granted, definition.scopes ?? []);
+    const status: ToolStatus = failure
+      ? failure
+      : !connection
+        ? "not_connected"
+        : missing.length > 0
+          ? "missing_scopes"
+          : "available";
+
+    availability.push({
+      name,
+      provider: definition.provider,
+      description: definition.description,
+      status,
+      accountId: connection?.accountId,
+      missingScopes: status === "missing_scopes" ? missing : undefined,
+    });
+
+    if (connection && status === "available") {
+      tools[name] = tool({
+        description: definition.description,
+        inputSchema: definition.inputSchema,
+        execute: (input) => definition.execute(input, connection),
+      });
+    }
+  }
+
+  return { tools, availability };
+}
+
+function getFailureStatus(error: unknown): ToolStatus {
+  if (error instanceof ReauthorizationRequiredError) {
+    return "reauthorization_required";
+  }
+  // Slack rejected the bot token's refresh
+  if (
+    error instanceof SlackApiError &&
+    ["token_expired", "invalid_refresh_token"].includes(error.error)
+  ) {
+    return "reinstall_required";
+  }
+  return "unavailable";
+}
+
+/**
+ * Tell the model what it can reach, so it can point the user at missing
+ * connections and scopes instead of guessing
+ */
+export function getSystemPrompt(availability: ToolAvailability[]): string {
+  const unavailable = availability
+    .filter(({ status }) => status !== "available")
+    .map(({ name, provider, status, missingScopes }) => {
+      switch (status) {
+        case "missing_scopes":
+          return `- ${name}: the ${provider} connection needs ${missingScopes!.join(", ")}`;
+        case "not_connected":
+          return `- ${name}: ${provider} is not connected`;
+        case "reinstall_required":
+          return `- ${name}: the ${provider} app has to be reinstalled by connecting ${provider} again`;
+        case "unavailable":
+          return `- ${name}: ${provider} can't be reached right now, the user can try again later`;
+        default:
+          return `- ${name}: ${provider} is disconnected and has to be reconnected`;
+      }
+    });
+
+  return [
+    "You are an assistant inside an app where users connect their accounts on services like GitHub, Supabase and Slack.",
+    "Answer questions about the user's connected accounts with the tools provided; they act with the user's own credentials.",
+    "Never invent data a tool didn't return. Keep answers short and use lists for collections.",
+    ...(unavailable.length > 0
+      ? [
+          "These tools are unavailable. If the user asks for them, explain what to connect or grant on the integrations page:",
+          ...unavailable,
+        ]
+      : []),
+  ].join("\n");
+}
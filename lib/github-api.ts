@@ -0,0 +1,293 @@
+import "server-only";
+import { createHash } from "node:crypto";
+
+import { getApiUrl, type Provider } from "./oauth-config";
+
+/**
+ * GET /user/orgs
+ * https://docs.github.com/en/rest/orgs/orgs#list-organizations-for-the-authenticated-user
+ */
+export type GitHubOrganization = {
+  id: number;
+  login: string;
+  description: string | null;
+  avatar_url: string;
+};
+
+/**
+ * GET /user/repos and /orgs/{org}/repos
+ * https://docs.github.com/en/rest/repos/repos#list-repositories-for-the-authenticated-user
+ */
+export type GitHubRepository = {
+  id: number;
+  name: string;
+  full_name: string;
+  private: boolean;
+  html_url: string;
+  description: string | null;
+  language: string | null;
+  stargazers_count: number;
+  updated_at: string;
+  owner: { login: string };
+};
+
+/**
+ * Page numbers parsed from the Link header; absent when there's no such page
+ */
+export interface GitHubPagination {
+  page: number;
+  next?: number;
+  prev?: number;
+  first?: number;
+  last?: number;
+}
+
+/**
+ * X-RateLimit-* headers of the latest response
+ * https://docs.github.com/en/rest/using-the-rest-api/rate-limits-for-the-rest-api
+ */
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  used: number;
+  /** Epoch seconds when the window resets */
+  reset: number;
+  resource: string;
+}
+
+export interface GitHubPage<T> {
+  data: T;
+  etag?: string;
+  pagination: GitHubPagination;
+  rateLimit?: GitHubRateLimit;
+  /** Served from the ETag cache after a 304 from GitHub */
+  notModified: boolean;
+}
+
+/**
+ * Providers whose tokens call the GitHub REST API: the OAuth App and the
+ * GitHub App. Paths are resolved against the provider's API URL.
+ */
+export type GitHubProvider = Extract<Provider, "github" | "github-app">;
+
+export interface GitHubPageOptions {
+  page?: number;
+  /** 1-100, GitHub defaults to 30 */
+  perPage?: number;
+  /** Extra query parameters, e.g. `sort` or `type` */
+  query?: Record<string, string>;
+  /** Defaults to "github" */
+  provider?: GitHubProvider;
+}
+
+/**
+ * GitHub failed the request; `rateLimited` when the primary or
+ * secondary rate limit was exceeded
+ */
+export class GitHubApiError extends Error {
+  status: number;
+  rateLimit?: GitHubRateLimit;
+  /** Seconds to wait before retrying, for rate limited requests */
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    status: number,
+    rateLimit?: GitHubRateLimit,
+    retryAfter?: number
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+    this.status = status;
+    this.rateLimit = rateLimit;
+    this.retryAfter = retryAfter;
+  }
+
+  get rateLimited(): boolean {
+    return this.retryAfter !== undefined;
+  }
+}
+
+const GITHUB_HEADERS = {
+  Accept: "application/vnd.github+json",
+  "X-GitHub-Api-Version": "2022-11-28",
+};
+
+// MARK: ETag cache
+
+interface CachedResponse {
+  etag: string;
+  data: unknown;
+  pagination: GitHubPagination;
+}
+
+// Conditional requests answered with 304 don't count against the rate
+// limit. Keyed by token hash + URL, so responses are never shared
+// between users. In-process only, and bounded.
+const MAX_CACHED_RESPONSES = 500;
+const etagCache = new Map<string, CachedResponse>();
+
+function cacheKey(accessToken: string, url: string): string {
+  const tokenHash = createHash("sha256").update(accessToken).digest("hex");
+  return `${tokenHash}:${url}`;
+}
+
+function cacheResponse(key: string, response: CachedResponse) {
+  etagCache.delete(key);
+  etagCache.set(key, response);
+  if (etagCache.size > MAX_CACHED_RESPONSES) {
+    // Maps iterate in insertion order: drop the least recently stored
+    etagCache.delete(etagCache.keys().next().value!);
+  }
+}
+
+// MARK: Headers
+
+/**
+ * Parse `<https://api.github.com/user/repos?page=2>; rel="next", ...`
+ */
+function parseLinkHeader(link: string | null, page: number): GitHubPagination {
+  const pagination: GitHubPagination = { page };
+
+  for (const part of link?.split(",") ?? []) {
+    const match = part.match(/<([^>]+)>;\s*rel="(next|prev|first|last)"/);
+    const linkedPage = match && new URL(match[1]).searchParams.get("page");
+    if (match && linkedPage) {
+      pagination[match[2] as "next" | "prev" | "first" | "last"] =
+        Number(linkedPage);
+    }
+  }
+  return pagination;
+}
+
+function parseRateLimit(headers: Headers): GitHubRateLimit | undefined {
+  const limit = headers.get("x-ratelimit-limit");
+  if (limit === null) {
+    return undefined;
+  }
+  return {
+    limit: Number(limit),
+    remaining: Number(headers.get("x-ratelimit-remaining")),
+    used: Number(headers.get("x-ratelimit-used")),
+    reset: Number(headers.get("x-ratelimit-reset")),
+    resource: headers.get("x-ratelimit-resource") ?? "core",
+  };
+}
+
+/**
+ * Seconds until a rate limited request may be retried, or undefined
+ * when the error isn't caused by a rate limit
+ */
+function getRetryAfter(
+  response: Response,
+  rateLimit: GitHubRateLimit | undefined
+): number | undefined {
+  if (response.status !== 403 && response.status !== 429) {
+    return undefined;
+  }
+  const retryAfter = response.headers.get("retry-after");
+  if (retryAfter !== null) {
+    return Number(retryAfter);
+  }
+  if (rateLimit?.remaining === 0) {
+    return Math.max(0, rateLimit.reset - Math.floor(Date.now() / 1000));
+  }
+  return undefined;
+}
+
+// MARK: Requests
+
+/**
+ * GET a paginated GitHub REST endpoint with the user's token.
+ * Repeated requests are sent with If-None-Match and served from the
+ * ETag cache when GitHub answers 304 Not Modified.
+ */
+export async function getGitHubPage<T>(
+  accessToken: string,
+  path: string,
+  { page = 1, perPage, query = {}, provider = "github" }: GitHubPageOptions = {}
+): Promise<GitHubPage<T>> {
+  const url = new URL(getApiUrl(provider, path));
+  for (const [key, value] of Object.entries(query)) {
+    url.searchParams.set(key, value);
+  }
+  url.searchParams.set("page", String(page));
+  if (perPage) {
+    url.searchParams.set("per_page", String(perPage));
+  }
+
+  const key = cacheKey(accessToken, url.toString());
+  const cached = etagCache.get(key);
+
+  const response = await fetch(url, {
+    headers: {
+      ...GITHUB_HEADERS,
+      Authorization: `Bearer ${accessToken}`,
+      ...(cached && { "If-None-Match": cached.etag }),
+    },
+    cache: "no-store",
+  });
+  const rateLimit = parseRateLimit(response.headers);
+
+  if (response.status === 304 && cached) {
+    return {
+      data: cached.data as T,
+      etag: cached.etag,
+      pagination: cached.pagination,
+      rateLimit,
+      notModified: true,
+    };
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => undefined);
+    throw new GitHubApiError(
+      body?.message ?? `GitHub API request failed: ${response.status}`,
+      response.status,
+      rateLimit,
+      getRetryAfter(response, rateLimit)
+    );
+  }
+
+  const data: T = await response.json();
+  const etag = response.headers.get("etag") ?? undefined;
+  const pagination = parseLinkHeader(response.headers.get("link"), page);
+
+  if (etag) {
+    cacheResponse(key, { etag, data, pagination });
+  }
+  return { data, etag, pagination, rateLimit, notModified: false };
+}
+
+export function listOrganizations(
+  accessToken: string,
+  options?: GitHubPageOptions
+) {
+  return getGitHubPage<GitHubOrganization[]>(
+    accessToken,
+    "/user/orgs",
+    options
+  );
+}
+
+export function listOrganizationRepositories(
+  accessToken: string,
+  org: string,
+  options?: GitHubPageOptions
+) {
+  return getGitHubPage<GitHubRepository[]>(
+    accessToken,
+    `/orgs/${encodeURIComponent(org)}/repos`,
+    options
+  );
+}
+
+export function listUserRepositories(
+  accessToken: string,
+  options?: GitHubPageOptions
+) {
+  return getGitHubPage<GitHubRepository[]>(accessToken, "/user/repos", {
+    ...options,
+    query: { sort: "updated", ...options?.query },
+  });
+}
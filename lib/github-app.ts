@@ -0,0 +1,221 @@
+import "server-only";
+import { createPrivateKey, sign, type KeyObject } from "node:crypto";
+
+import {
+  getGitHubPage,
+  GitHubApiError,
+  type GitHubPage,
+  type GitHubPageOptions,
+  type GitHubRepository,
+} from "./github-api";
+import { getApiUrl, getProviderEnv } from "./oauth-config";
+
+/**
+ * GET /user/installations
+ * https://docs.github.com/en/rest/apps/installations#list-app-installations-accessible-to-the-user-access-token
+ */
+export type GitHubInstallation = {
+  id: number;
+  account: {
+    id: number;
+    login: string;
+    type: "User" | "Organization";
+    avatar_url: string;
+  };
+  app_slug: string;
+  /** Where the account configures the installation */
+  html_url: string;
+  repository_selection: "all" | "selected";
+  permissions: Record<string, string>;
+  events: string[];
+  suspended_at: string | null;
+};
+
+/**
+ * POST /app/installations/{installation_id}/access_tokens
+ * https://docs.github.com/en/rest/apps/apps#create-an-installation-access-token-for-an-app
+ */
+export interface InstallationToken {
+  token: string;
+  /** Epoch milliseconds; installation tokens last an hour */
+  expiresAt: number;
+  permissions: Record<string, string>;
+  repositorySelection: "all" | "selected";
+}
+
+const GITHUB_HEADERS = {
+  Accept: "application/vnd.github+json",
+  "X-GitHub-Api-Version": "2022-11-28",
+};
+
+// MARK: App authentication
+
+interface AppCredentials {
+  appId: string;
+  privateKey: KeyObject;
+}
+
+let appCredentials: AppCredentials | undefined;
+
+/**
+ * GITHUB_APP_ID (the app ID or client ID) and GITHUB_APP_PRIVATE_KEY, the
+ * PEM private key generated in the app settings. Newlines may be escaped
+ * as `\n` to keep the key on one line.
+ */
+function getAppCredentials(): AppCredentials {
+  if (!appCredentials) {
+    const appId = process.env.GITHUB_APP_ID;
+    const pem = process.env.GITHUB_APP_PRIVATE_KEY?.replaceAll("\\n", "\n");
+    if (!appId || !pem) {
+      throw new Error("GITHUB_APP_ID and GITHUB_APP_PRIVATE_KEY are required");
+    }
+    appCredentials = { appId, privateKey: createPrivateKey(pem) };
+  }
+  return appCredentials;
+}
+
+/**
+ * JWT authenticating as the app itself, signed with its private key.
+ * Backdated a minute for clock drift; GitHub rejects lifetimes over 10 minutes.
+ * https://docs.github.com/en/apps/creating-github-apps/authenticating-with-a-github-app/generating-a-json-web-token-jwt-for-a-github-app
+ */
+export function createAppJwt(): string {
+  const { appId, privateKey } = getAppCredentials();
+  const now = Math.floor(Date.now() / 1000);
+
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const input = `${encode({ alg: "RS256", typ: "JWT" })}.${encode({
+    iat: now - 60,
+    exp: now + 9 * 60,
+    iss: appId,
+  })}`;
+  const signature = sign("sha256", Buffer.from(input), privateKey);
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+// MARK: Installation tokens
+
+// Reused until shortly before they expire. In-process only.
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const installationTokens = new Map<number, InstallationToken>();
+
+/**
+ * Access token acting as the app on an installation's repositories,
+ * limited to the permissions the app was granted there
+ */
+export async function getInstallationToken(
+  installationId: number
+): Promise<InstallationToken> {
+  const cached = installationTokens.get(installationId);
+  if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return cached;
+  }
+
+  const response = await fetch(
+    getApiUrl(
+      "github-app",
+      `/app/installations/${installationId}/access_tokens`
+    ),
+    {
+      method: "POST",
+      headers: { ...GITHUB_HEADERS, Authorization: `Bearer ${createAppJwt()}` },
+      cache: "no-store",
+    }
+  );
+  const body = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    throw new GitHubApiError(
+      body?.message ??
+        `Failed to create an installation token: ${response.status}`,
+      response.status
+    );
+  }
+
+  const token: InstallationToken = {
+    token: body.token,
+    expiresAt: Date.parse(body.expires_at),
+    permissions: body.permissions ?? {},
+    repositorySelection: body.repository_selection,
+  };
+  installationTokens.set(installationId, token);
+  return token;
+}
+
+/**
+ * Drop a cached installation token, e.g. after the installation's
+ * permissions or repositories changed, or it was removed
+ */
+export function forgetInstallationToken(installationId: number) {
+  installationTokens.delete(installationId);
+}
+
+// MARK: Requests
+
+/**
+ * Installations of the app the user can access, with their user token
+ */
+export async function listUserInstallations(
+  accessToken: string,
+  options?: GitHubPageOptions
+): Promise<GitHubPage<GitHubInstallation[]>> {
+  const page = await getGitHubPage<{ installations: GitHubInstallation[] }>(
+    accessToken,
+    "/user/installations",
+    { ...options, provider: "github-app" }
+  );
+  return { ...page, data: page.data.installations };
+}
+
+/**
+ * The installation if the user can access it. Installation IDs in setup
+ * redirects can be forged, so they're checked against this list.
+ */
+export async function findUserInstallation(
+  accessToken: string,
+  installationId: number
+): Promise<GitHubInstallation | undefined> {
+  let page: number | undefined = 1;
+  while (page) {
+    const { data, pagination } = await listUserInstallations(accessToken, {
+      page,
+      perPage: 100,
+    });
+    const installation = data.find(({ id }) => id === installationId);
+    if (installation) {
+      return installation;
+    }
+    page = pagination.next;
+  }
+  return undefined;
+}
+
+/**
+ * Repositories the app can act on in an installation, with an
+ * installation token rather than the user's
+ */
+export async function listInstallationRepositories(
+  installationId: number,
+  options?: GitHubPageOptions
+): Promise<GitHubPage<GitHubRepository[]>> {
+  const { token } = await getInstallationToken(installationId);
+  const page = await getGitHubPage<{ repositories: GitHubRepository[] }>(
+    token,
+    "/installation/repositories",
+    { ...options, provider: "github-app" }
+  );
+  return { ...page, data: page.data.repositories };
+}
+
+/**
+ * Where users install the app, when GITHUB_APP_SLUG is set. GitHub then
+ * redirects to the app's Setup URL with `installation_id` and `setup_action`.
+ */
+export function getInstallUrl(): string | undefined {
+  const slug = process.env.GITHUB_APP_SLUG;
+  if (!slug) {
+    return undefined;
+  }
+  const { issuer } = getProviderEnv("github-app");
+  return `${issuer.replace(/\/$/, "")}/apps/${encodeURIComponent(slug)}/installations/new`;
+}
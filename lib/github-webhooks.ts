@@ -0,0 +1,526 @@
+import "server-only";
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { dirname, join } from "node:path";
+
+import {
+  listOrganizations,
+  type GitHubOrganization,
+  type GitHubProvider,
+} from "./github-api";
+import { forgetInstallationToken } from "./github-app";
+import { JsonFileStore } from "./token-store/utils";
+
+// MARK: Payloads
+
+/**
+ * User, organization or bot referenced by a webhook payload
+ */
+export interface GitHubWebhookAccount {
+  id: number;
+  login: string;
+  type?: "User" | "Organization" | "Bot";
+}
+
+export interface GitHubWebhookRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  private: boolean;
+  html_url: string;
+  owner: GitHubWebhookAccount;
+}
+
+interface GitHubWebhookBase {
+  sender: GitHubWebhookAccount;
+  repository?: GitHubWebhookRepository;
+  organization?: { id: number; login: string };
+  /** Present when the webhook is delivered to a GitHub App */
+  installation?: { id: number };
+}
+
+/**
+ * https://docs.github.com/en/webhooks/webhook-events-and-payloads#installation
+ */
+export interface GitHubInstallationEvent extends GitHubWebhookBase {
+  action:
+    | "created"
+    | "deleted"
+    | "suspend"
+    | "unsuspend"
+    | "new_permissions_accepted";
+  installation: {
+    id: number;
+    account: GitHubWebhookAccount;
+    repository_selection: "all" | "selected";
+    permissions: Record<string, string>;
+    events: string[];
+  };
+  repositories?: { id: number; name: string; full_name: string }[];
+}
+
+/**
+ * https://docs.github.com/en/webhooks/webhook-events-and-payloads#push
+ */
+export interface GitHubPushEvent extends GitHubWebhookBase {
+  ref: string;
+  before: string;
+  after: string;
+  created: boolean;
+  deleted: boolean;
+  forced: boolean;
+  compare: string;
+  commits: {
+    id: string;
+    message: string;
+    url: string;
+    author: { name: string; email: string; username?: string };
+  }[];
+  repository: GitHubWebhookRepository;
+  pusher: { name: string; email?: string };
+}
+
+/**
+ * https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request
+ */
+export interface GitHubPullRequestEvent extends GitHubWebhookBase {
+  action: string;
+  number: number;
+  pull_request: {
+    id: number;
+    number: number;
+    title: string;
+    state: "open" | "closed";
+    draft?: boolean;
+    merged?: boolean;
+    html_url: string;
+    user: GitHubWebhookAccount;
+    head: { ref: string; sha: string };
+    base: { ref: string; sha: string };
+  };
+  repository: GitHubWebhookRepository;
+}
+
+/**
+ * Organization membership changes
+ * https://docs.github.com/en/webhooks/webhook-events-and-payloads#organization
+ */
+export interface GitHubOrganizationEvent extends GitHubWebhookBase {
+  action:
+    | "member_added"
+    | "member_removed"
+    | "member_invited"
+    | "renamed"
+    | "deleted";
+  organization: { id: number; login: string };
+  membership?: {
+    state: "active" | "pending";
+    role: "admin" | "member" | "billing_manager" | "unaffiliated";
+    user: GitHubWebhookAccount | null;
+  };
+  invitation?: { id: number; login: string | null; role: string };
+}
+
+/**
+ * Payload types by X-GitHub-Event
+ */
+export interface GitHubWebhookPayloads {
+  installation: GitHubInstallationEvent;
+  push: GitHubPushEvent;
+  pull_request: GitHubPullRequestEvent;
+  organization: GitHubOrganizationEvent;
+}
+
+export type GitHubWebhookEvent = {
+  [E in keyof GitHubWebhookPayloads]: {
+    event: E;
+    payload: GitHubWebhookPayloads[E];
+  };
+}[keyof GitHubWebhookPayloads];
+
+const SUPPORTED_EVENTS = new Set<string>([
+  "installation",
+  "push",
+  "pull_request",
+  "organization",
+]);
+
+/**
+ * Parse a delivery of a supported event. Undefined for other events
+ * (e.g., the `ping` sent when the webhook is created).
+ * Throws when the body isn't JSON.
+ */
+export function parseGitHubWebhook(
+  event: string,
+  body: string
+): GitHubWebhookEvent | undefined {
+  if (!SUPPORTED_EVENTS.has(event)) {
+    return undefined;
+  }
+  return { event, payload: JSON.parse(body) } as GitHubWebhookEvent;
+}
+
+// MARK: Signatures
+
+/**
+ * Verify X-Hub-Signature-256, an HMAC of the raw body with the webhook's
+ * secret. Compared in constant time.
+ * https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries
+ */
+export function verifyGitHubSignature(
+  body: string,
+  signature: string | null
+): boolean {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  // Nothing can be verified without the secret
+  if (!secret || !signature?.startsWith("sha256=")) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    createHmac("sha256", secret).update(body).digest("hex")
+  );
+  const actual = Buffer.from(signature.slice("sha256=".length));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// MARK: Store
+
+/**
+ * A connected GitHub account and the organizations it belongs to
+ */
+export interface GitHubWebhookLink {
+  /** UserInfo.id of the connection */
+  accountId: string;
+  organizations: { id: string; login: string }[];
+  /**
+   * Connections to the account, as hashes of their session ID and
+   * provider. The link is removed when the last one is disconnected.
+   */
+  connections: string[];
+  updatedAt: number;
+}
+
+/**
+ * A received delivery, with the connected accounts it concerns
+ */
+export interface GitHubDelivery {
+  /** X-GitHub-Delivery */
+  id: string;
+  event: keyof GitHubWebhookPayloads;
+  action?: string;
+  /** Epoch milliseconds */
+  receivedAt: number;
+  /** Times GitHub delivered it again after the first delivery */
+  redeliveries: number;
+  accountIds: string[];
+  sender: string;
+  repository?: string;
+  organization?: string;
+}
+
+interface WebhookRecords {
+  links: Record<string, GitHubWebhookLink>;
+  /** Most recent first */
+  deliveries: GitHubDelivery[];
+}
+
+const MAX_DELIVERIES = 500;
+
+/**
+ * Links between webhook senders and connected accounts, and the delivery
+ * log. Webhooks arrive without a session, so connections are matched
+ * through this index rather than the session-keyed token store. Holds no
+ * tokens, so nothing is sealed. Kept in memory, or in a JSON file when
+ * `path` is set.
+ */
+export class GitHubWebhookStore {
+  private records: JsonFileStore<WebhookRecords>;
+
+  constructor(path?: string) {
+    this.records = new JsonFileStore<WebhookRecords>(path, () => ({
+      links: {},
+      deliveries: [],
+    }));
+  }
+
+  /**
+   * Link an account through a connection, adding to the organizations
+   * it's already linked to (e.g., through the other GitHub provider)
+   */
+  async link(
+    accountId: string,
+    organizations: GitHubWebhookLink["organizations"],
+    connection: string
+  ): Promise<void> {
+    await this.records.mutate((records) => {
+      const linked = records.links[accountId];
+      records.links[accountId] = {
+        accountId,
+        organizations: [
+          ...(linked?.organizations ?? []).filter(
+            ({ id }) => !organizations.some((org) => org.id === id)
+          ),
+          ...organizations,
+        ],
+        connections: [
+          ...(linked?.connections ?? []).filter((ref) => ref !== connection),
+          connection,
+        ],
+        updatedAt: Date.now(),
+      };
+    });
+  }
+
+  /**
+   * Drop a connection's link to an account, and the account's link once
+   * no connection is left
+   */
+  async unlink(accountId: string, connection: string): Promise<void> {
+    await this.records.mutate((records) => {
+      const link = records.links[accountId];
+      if (!link) {
+        return;
+      }
+      link.connections = (link.connections ?? []).filter(
+        (ref) => ref !== connection
+      );
+      link.updatedAt = Date.now();
+      if (link.connections.length === 0) {
+        delete records.links[accountId];
+      }
+    });
+  }
+
+  /**
+   * Apply a membership change to a linked account's organizations
+   */
+  async updateMembership(
+    accountId: string,
+    organization: { id: string; login: string },
+    isMember: boolean
+  ): Promise<void> {
+    await this.records.mutate((records) => {
+      const link = records.links[accountId];
+      if (!link) {
+        return;
+      }
+      const others = link.organizations.filter(
+        ({ id }) => id !== organization.id
+      );
+      link.organizations = isMember ? [...others, organization] : others;
+      link.updatedAt = Date.now();
+    });
+  }
+
+  async getLinks(): Promise<GitHubWebhookLink[]> {
+    return Object.values((await this.records.read()).links);
+  }
+
+  /**
+   * Log a delivery. False when it was already logged, i.e. GitHub
+   * redelivered it; only its redelivery count changes then.
+   */
+  record(delivery: GitHubDelivery): Promise<boolean> {
+    return this.records.mutate((records) => {
+      const logged = records.deliveries.find(({ id }) => id === delivery.id);
+      if (logged) {
+        logged.redeliveries += 1;
+        return false;
+      }
+      records.deliveries = [delivery, ...records.deliveries].slice(
+        0,
+        MAX_DELIVERIES
+      );
+      return true;
+    });
+  }
+
+  /**
+   * Logged deliveries concerning an account, most recent first
+   */
+  async listDeliveries(accountId: string): Promise<GitHubDelivery[]> {
+    return (await this.records.read()).deliveries.filter(({ accountIds }) =>
+      accountIds.includes(accountId)
+    );
+  }
+}
+
+// Survive module reloads in development
+const globalForWebhooks = globalThis as {
+  githubWebhookStore?: GitHubWebhookStore;
+};
+
+/**
+ * Get the webhook store. Follows TOKEN_STORE: with TOKEN_STORE=file,
+ * it's persisted next to the token store's file.
+ */
+export function getWebhookStore(): GitHubWebhookStore {
+  if (!globalForWebhooks.githubWebhookStore) {
+    globalForWebhooks.githubWebhookStore = new GitHubWebhookStore(
+      process.env.TOKEN_STORE === "file"
+        ? join(
+            dirname(process.env.TOKEN_STORE_PATH ?? ".data/tokens.json"),
+            "github-webhooks.json"
+          )
+        : undefined
+    );
+  }
+  return globalForWebhooks.githubWebhookStore;
+}
+
+// MARK: Correlation
+
+/**
+ * Identify a connection in the store without keeping its session ID
+ */
+function connectionRef(sessionId: string, provider: GitHubProvider): string {
+  return createHash("sha256")
+    .update(`${sessionId}:${provider}`)
+    .digest("base64url");
+}
+
+/**
+ * Link a GitHub connection to the webhooks about it: deliveries sent by,
+ * or about, the account or one of its organizations. Organizations need
+ * the read:org scope (or a GitHub App's organization members permission);
+ * without it only the account itself is matched.
+ */
+export async function linkGitHubAccount(
+  sessionId: string,
+  provider: GitHubProvider,
+  accountId: string,
+  accessToken: string
+): Promise<void> {
+  const organizations: GitHubOrganization[] = [];
+  try {
+    let page: number | undefined = 1;
+    while (page) {
+      const { data, pagination } = await listOrganizations(accessToken, {
+        page,
+        perPage: 100,
+        provider,
+      });
+      organizations.push(...data);
+      page = pagination.next;
+    }
+  } catch (error) {
+    console.warn(`Could not list organizations of ${accountId}:`, error);
+  }
+
+  await getWebhookStore().link(
+    accountId,
+    organizations.map(({ id, login }) => ({ id: String(id), login })),
+    connectionRef(sessionId, provider)
+  );
+}
+
+/**
+ * Stop matching webhooks to a disconnected GitHub connection. The account
+ * stays linked while another session or provider is connected to it.
+ */
+export async function unlinkGitHubAccount(
+  sessionId: string,
+  provider: GitHubProvider,
+  accountId: string
+): Promise<void> {
+  await getWebhookStore().unlink(accountId, connectionRef(sessionId, provider));
+}
+
+/**
+ * User and organization IDs a delivery is about
+ */
+function getSubjects({ event, payload }: GitHubWebhookEvent) {
+  const users = new Set<number>([payload.sender.id]);
+  const organizations = new Set<number>();
+
+  const addAccount = (account?: GitHubWebhookAccount | null) => {
+    if (account) {
+      (account.type === "Organization" ? organizations : users).add(account.id);
+    }
+  };
+
+  addAccount(payload.repository?.owner);
+  if (payload.organization) {
+    organizations.add(payload.organization.id);
+  }
+  switch (event) {
+    case "installation":
+      addAccount(payload.installation.account);
+      break;
+    case "pull_request":
+      addAccount(payload.pull_request.user);
+      break;
+    case "organization":
+      addAccount(payload.membership?.user);
+      break;
+  }
+  return { users, organizations };
+}
+
+/**
+ * Connected accounts a delivery concerns: the account is a subject, or
+ * belongs to an organization that is
+ */
+function correlate(
+  webhook: GitHubWebhookEvent,
+  links: GitHubWebhookLink[]
+): string[] {
+  const { users, organizations } = getSubjects(webhook);
+
+  return links
+    .filter(
+      (link) =>
+        users.has(Number(link.accountId)) ||
+        link.organizations.some(({ id }) => organizations.has(Number(id)))
+    )
+    .map(({ accountId }) => accountId);
+}
+
+/**
+ * Log a delivery against the connected accounts it concerns, and keep
+ * their organizations current on membership changes. Returns undefined
+ * for a redelivery, which was already handled.
+ */
+export async function receiveGitHubWebhook(
+  deliveryId: string,
+  webhook: GitHubWebhookEvent
+): Promise<GitHubDelivery | undefined> {
+  const store = getWebhookStore();
+  const { event, payload } = webhook;
+
+  const delivery: GitHubDelivery = {
+    id: deliveryId,
+    event,
+    action: "action" in payload ? payload.action : undefined,
+    receivedAt: Date.now(),
+    redeliveries: 0,
+    accountIds: correlate(webhook, await store.getLinks()),
+    sender: payload.sender.login,
+    repository: payload.repository?.full_name,
+    organization: payload.organization?.login,
+  };
+  if (!(await store.record(delivery))) {
+    return undefined;
+  }
+
+  // Installation tokens carry the permissions granted when minted
+  if (event === "installation" && payload.action !== "created") {
+    forgetInstallationToken(payload.installation.id);
+  }
+
+  const member = event === "organization" && payload.membership?.user;
+  if (
+    member &&
+    (payload.action === "member_added" || payload.action === "member_removed")
+  ) {
+    await store.updateMembership(
+      String(member.id),
+      {
+        id: String(payload.organization.id),
+        login: payload.organization.login,
+      },
+      payload.action === "member_added"
+    );
+  }
+  return delivery;
+}
@@ -0,0 +1,35 @@
+/**
+ * Hosts serving provider avatars, allowed for next/image optimization.
+ * A leading "*." matches a single subdomain level, like remotePatterns.
+ */
+export const AVATAR_HOSTS = [
+  "avatars.githubusercontent.com",
+  "*.googleusercontent.com", // Google
+  "img.clerk.com",
+  "avatars.slack-edge.com",
+  "secure.gravatar.com", // Slack's default avatars
+  "platform-lookaside.fbsbx.com", // Facebook
+];
+
+/**
+ * Whether next/image can load the URL, per the remote patterns above
+ */
+export function isOptimizableImage(url: string): boolean {
+  const parsed = URL.parse(url);
+  if (parsed?.protocol !== "https:") {
+    return false;
+  }
+
+  return AVATAR_HOSTS.some((host) => {
+    if (!host.startsWith("*.")) {
+      return parsed.hostname === host;
+    }
+    const suffix = host.slice(1);
+    const subdomain = parsed.hostname.slice(0, -suffix.length);
+    return (
+      parsed.hostname.endsWith(suffix) &&
+      subdomain.length > 0 &&
+      !subdomain.includes(".")
+    );
+  });
+}
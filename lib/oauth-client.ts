@@ -2,21 +2,28 @@ import * as oauth from "oauth4webapi";
 import {
   getClient,
   getAuthorizationServer,
-  getProviderConfig,
+  getProviderDefinition,
+  getApiUrl,
   Provider,
 } from "./oauth-config";
+import { listOrganizations as listGitHubOrganizations } from "./github-api";
+import { listOrganizations as listSupabaseOrganizations } from "./supabase-api";
+import { createProviderFetch, getRequestOptions } from "./oauth-quirks";
+import type { TokenIntrospection, UserInfo } from "./providers/types";
+import { defaultUserInfoMapping } from "./providers/utils";
+
+export type { UserInfo };
 
 /**
- * Generic user info structure
- * Keep this for convenience as oauth4webapi's UserInfoResponse is generic
+ * Result of checking an access token with the provider
  */
-export interface UserInfo {
-  id: string;
-  email?: string;
-  name?: string;
-  username?: string;
-  avatar_url?: string;
-  raw: Record<string, unknown>; // Original provider response
+export interface TokenInfo extends TokenIntrospection {
+  /**
+   * - "introspection": RFC 7662 introspection endpoint
+   * - "provider": the provider's own token API (e.g., GitHub)
+   * - "userinfo": fetching the profile succeeded or not; no token metadata
+   */
+  method: "introspection" | "provider" | "userinfo";
 }
 
 /**
@@ -26,32 +33,59 @@ export class OAuthClient {
   private provider: Provider;
   private accessToken: string;
   private client: oauth.Client;
-  private authorizationServer: oauth.AuthorizationServer;
+  private idTokenClaims?: oauth.IDToken;
 
-  constructor(provider: Provider, accessToken: string) {
+  constructor(
+    provider: Provider,
+    accessToken: string,
+    options: { idTokenClaims?: oauth.IDToken } = {}
+  ) {
     this.provider = provider;
     this.accessToken = accessToken;
     this.client = getClient(provider);
-    this.authorizationServer = getAuthorizationServer(provider);
+    this.idTokenClaims = options.idTokenClaims;
   }
 
   /**
-   * Get user information from the provider using oauth4webapi
+   * Get user information, preferring ID token claims verified at the
+   * callback over a userinfo round-trip
    */
   async getUserInfo(): Promise<UserInfo> {
+    if (this.idTokenClaims) {
+      return this.normalizeUserInfo({ ...this.idTokenClaims });
+    }
+    return this.fetchUserInfo();
+  }
+
+  /**
+   * Fetch user information from the provider using oauth4webapi
+   */
+  async fetchUserInfo(): Promise<UserInfo> {
     try {
-      const providerConfig = getProviderConfig(this.provider);
+      const { fetchProfile } = getProviderDefinition(this.provider);
+
+      // Providers with their own profile API (e.g., GitHub, Slack, Facebook)
+      if (fetchProfile) {
+        const data = await fetchProfile({
+          accessToken: this.accessToken,
+          apiUrl: (path) => getApiUrl(this.provider, path),
+          fetch: createProviderFetch(this.provider, "userinfo"),
+        });
+        return this.normalizeUserInfo(data);
+      }
 
       // For providers with standard userinfo endpoint
-      if (this.authorizationServer.userinfo_endpoint) {
+      const authorizationServer = await getAuthorizationServer(this.provider);
+      if (authorizationServer.userinfo_endpoint) {
         const response = await oauth.userInfoRequest(
-          this.authorizationServer,
+          authorizationServer,
           this.client,
-          this.accessToken
+          this.accessToken,
+          getRequestOptions(this.provider, authorizationServer, "userinfo")
         );
 
         const userInfoResponse = await oauth.processUserInfoResponse(
-          this.authorizationServer,
+          authorizationServer,
           this.client,
           oauth.skipSubjectCheck, // Skip subject verification
           response
@@ -60,30 +94,6 @@ export class OAuthClient {
         return this.normalizeUserInfo(userInfoResponse);
       }
 
-      // Fallback for providers without standard userinfo endpoint (e.g., GitHub)
-      if (providerConfig.userInfoEndpoint) {
-        const headers: HeadersInit = {
-          Authorization: `Bearer ${this.accessToken}`,
-          Accept:
-            this.provider === "github"
-              ? "application/vnd.github+json"
-              : "application/json",
-        };
-
-        const response = await fetch(providerConfig.userInfoEndpoint, {
-          headers,
-        });
-
-        if (!response.ok) {
-          throw new Error(
-            `Failed to fetch user info: ${response.status} ${response.statusText}`
-          );
-        }
-
-        const data = await response.json();
-        return this.normalizeUserInfo(data);
-      }
-
       throw new Error(`No userinfo endpoint configured for ${this.provider}`);
     } catch (error) {
       console.error(`Error fetching user info for ${this.provider}:`, error);
@@ -95,45 +105,11 @@ export class OAuthClient {
    * Normalize user info across different providers
    */
   private normalizeUserInfo(data: Record<string, unknown>): UserInfo {
-    // Helper to safely extract string values
-    const getString = (value: unknown): string | undefined =>
-      typeof value === "string" ? value : undefined;
-
-    switch (this.provider) {
-      case "supabase":
-        return {
-          id: getString(data.sub) || getString(data.id) || "",
-          email: getString(data.email),
-          name: getString(data.name),
-          username:
-            getString(data.preferred_username) || getString(data.username),
-          avatar_url: getString(data.picture) || getString(data.avatar_url),
-          raw: data,
-        };
-
-      case "github":
-        return {
-          id: String(data.id),
-          email: getString(data.email),
-          name: getString(data.name),
-          username: getString(data.login),
-          avatar_url: getString(data.avatar_url),
-          raw: data,
-        };
-
-      default:
-        return {
-          id: String(data.id || data.sub || ""),
-          email: getString(data.email),
-          name: getString(data.name),
-          username:
-            getString(data.username) ||
-            getString(data.login) ||
-            getString(data.preferred_username),
-          avatar_url: getString(data.avatar_url) || getString(data.picture),
-          raw: data,
-        };
-    }
+    const { mapUserInfo = defaultUserInfoMapping } = getProviderDefinition(
+      this.provider
+    );
+
+    return { provider: this.provider, ...mapUserInfo(data), raw: data };
   }
 
   /**
@@ -144,7 +120,7 @@ export class OAuthClient {
     refreshToken: string
   ): Promise<oauth.TokenEndpointResponse> {
     const client = getClient(provider);
-    const authorizationServer = getAuthorizationServer(provider);
+    const authorizationServer = await getAuthorizationServer(provider);
 
     try {
       // Determine client authentication method
@@ -159,7 +135,8 @@ export class OAuthClient {
         authorizationServer,
         client,
         clientAuth,
-        refreshToken
+        refreshToken,
+        getRequestOptions(provider, authorizationServer, "refresh")
       );
 
       // Process the response
@@ -169,6 +146,15 @@ export class OAuthClient {
         response
       );
 
+      // A refreshed ID token has had its claims checked; verify its signature too
+      if (oauth.getValidatedIdTokenClaims(result)) {
+        await oauth.validateApplicationLevelSignature(
+          authorizationServer,
+          response,
+          getRequestOptions(provider, authorizationServer)
+        );
+      }
+
       return result;
     } catch (error) {
       console.error(`Error refreshing token for ${provider}:`, error);
@@ -176,6 +162,50 @@ export class OAuthClient {
     }
   }
 
+  /**
+   * Check the access token with the most informative method available:
+   * the provider's own token API, an RFC 7662 introspection endpoint,
+   * or a userinfo request as a last resort
+   */
+  async introspectToken(): Promise<TokenInfo> {
+    const { checkToken } = getProviderDefinition(this.provider);
+
+    if (checkToken) {
+      const result = await checkToken({
+        accessToken: this.accessToken,
+        clientId: this.client.client_id,
+        clientSecret: String(this.client.client_secret),
+        apiUrl: (path) => getApiUrl(this.provider, path),
+        fetch: createProviderFetch(this.provider, "introspection"),
+      });
+      return { ...result, method: "provider" };
+    }
+
+    const authorizationServer = await getAuthorizationServer(this.provider);
+    if (authorizationServer.introspection_endpoint) {
+      const clientSecret = String(this.client.client_secret);
+      const response = await oauth.introspectionRequest(
+        authorizationServer,
+        this.client,
+        this.client.token_endpoint_auth_method === "client_secret_post"
+          ? oauth.ClientSecretPost(clientSecret)
+          : oauth.ClientSecretBasic(clientSecret),
+        this.accessToken,
+        getRequestOptions(this.provider, authorizationServer, "introspection")
+      );
+
+      const { active, scope, exp, client_id, sub } =
+        await oauth.processIntrospectionResponse(
+          authorizationServer,
+          this.client,
+          response
+        );
+      return { active, scope, exp, client_id, sub, method: "introspection" };
+    }
+
+    return { active: await this.validateToken(), method: "userinfo" };
+  }
+
   /**
    * Validate if the current access token is still valid
    * Returns true if valid, false if invalid/expired
@@ -183,7 +213,7 @@ export class OAuthClient {
   async validateToken(): Promise<boolean> {
     try {
       // Try to fetch user info as a way to validate the token
-      await this.getUserInfo();
+      await this.fetchUserInfo();
       return true;
     } catch {
       return false;
@@ -209,27 +239,18 @@ export async function getProviderSpecificData(
   accessToken: string
 ): Promise<unknown> {
   switch (provider) {
-    case "github": {
+    case "github":
+    case "github-app": {
       // Fetch organizations for GitHub
-      const response = await fetch("https://api.github.com/user/orgs", {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          Accept: "application/vnd.github+json",
-        },
+      const { data } = await listGitHubOrganizations(accessToken, {
+        provider,
       });
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch GitHub organizations");
-      }
-
-      return await response.json();
+      return data;
     }
 
     case "supabase": {
       // Use the Supabase Management API
-      const { SupabaseManagementAPI } = await import("supabase-management-js");
-      const supabaseClient = new SupabaseManagementAPI({ accessToken });
-      return await supabaseClient.getOrganizations();
+      return await listSupabaseOrganizations(accessToken);
     }
 
     default:
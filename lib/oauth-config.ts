@@ -1,29 +1,250 @@
 "server-only";
 import * as oauth from "oauth4webapi";
 
-export const VALID_PROVIDERS = [
-  "supabase",
-  "github",
-  "clerk",
-  "google",
-  "slack",
-  "facebook",
-] as const;
+import { discoverAuthorizationServer } from "./oauth-discovery";
+import {
+  parseProviderEnv,
+  ProviderConfigurationError,
+  type ProviderEnv,
+  type ProviderEnvIssue,
+} from "./oauth-env";
+import type { ProviderDefinition, ProviderQuirks } from "./providers/types";
+import { supabase } from "./providers/supabase";
+import { github } from "./providers/github";
+import { githubApp } from "./providers/github-app";
+import { clerk } from "./providers/clerk";
+import { google } from "./providers/google";
+import { slack } from "./providers/slack";
+import { facebook } from "./providers/facebook";
 
-export type Provider = (typeof VALID_PROVIDERS)[number];
+/**
+ * MARK: Registry
+ * Single source of truth for supported providers.
+ * To add a provider, create its definition in lib/providers and register it here.
+ */
+const PROVIDERS = {
+  supabase,
+  github,
+  "github-app": githubApp,
+  clerk,
+  google,
+  slack,
+  facebook,
+} satisfies Record<string, ProviderDefinition>;
+
+export type Provider = keyof typeof PROVIDERS;
+
+export const VALID_PROVIDERS = Object.keys(PROVIDERS) as Provider[];
 
 export function isValidProvider(provider: string): provider is Provider {
   return VALID_PROVIDERS.includes(provider as Provider);
 }
 
+/**
+ * Get the declarative definition for a provider
+ */
+export function getProviderDefinition(provider: Provider): ProviderDefinition {
+  const definition = PROVIDERS[provider];
+  if (!definition) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+  return definition;
+}
+
+// MARK: Environment
+
+interface EnvironmentReport {
+  enabled: Provider[];
+  disabled: Provider[];
+  configs: Partial<Record<Provider, ProviderEnv>>;
+  issues: ProviderEnvIssue[];
+  /** Missing secrets of features built on enabled providers */
+  warnings: ProviderEnvIssue[];
+}
+
+/**
+ * Secrets verifying requests a provider sends to this app, and the GitHub
+ * App's own credentials. Without one the provider stays enabled, but the
+ * route rejects requests.
+ */
+const FEATURE_SECRETS: {
+  providers: Provider[];
+  variable: string;
+  route: string;
+}[] = [
+  {
+    providers: ["slack"],
+    variable: "SLACK_SIGNING_SECRET",
+    route: "/api/slack/events",
+  },
+  {
+    providers: ["github", "github-app"],
+    variable: "GITHUB_WEBHOOK_SECRET",
+    route: "/api/webhooks/github",
+  },
+  {
+    providers: ["github-app"],
+    variable: "GITHUB_APP_ID",
+    route: "/api/integrations/github-app/installations/[installation]/repos",
+  },
+  {
+    providers: ["github-app"],
+    variable: "GITHUB_APP_PRIVATE_KEY",
+    route: "/api/integrations/github-app/installations/[installation]/repos",
+  },
+];
+
+let environmentReport: EnvironmentReport | undefined;
+
+/**
+ * Providers requested via OAUTH_PROVIDERS (comma separated), or all of them.
+ * Unknown names are reported rather than silently ignored.
+ */
+function getRequestedProviders(): {
+  providers: Provider[];
+  issues: ProviderEnvIssue[];
+} {
+  const requested = process.env.OAUTH_PROVIDERS?.split(",")
+    .map((provider) => provider.trim())
+    .filter(Boolean);
+
+  if (!requested?.length) {
+    return { providers: VALID_PROVIDERS, issues: [] };
+  }
+  return {
+    providers: VALID_PROVIDERS.filter((provider) =>
+      requested.includes(provider)
+    ),
+    issues: requested
+      .filter((provider) => !isValidProvider(provider))
+      .map((provider) => ({
+        provider,
+        variable: "OAUTH_PROVIDERS",
+        message: `is not a supported provider (expected one of ${VALID_PROVIDERS.join(", ")})`,
+      })),
+  };
+}
+
+/**
+ * Validate every requested provider's environment variables at once.
+ * Providers with incomplete configuration are disabled, unless `strict`
+ * is set, in which case all issues are thrown together.
+ * Runs once per process; see instrumentation.ts.
+ */
+export function validateProviderEnvironment({
+  strict = false,
+}: { strict?: boolean } = {}): EnvironmentReport {
+  if (!environmentReport) {
+    const report: EnvironmentReport = {
+      enabled: [],
+      disabled: [],
+      configs: {},
+      issues: [],
+      warnings: [],
+    };
+
+    const requested = getRequestedProviders();
+    report.issues.push(...requested.issues);
+
+    for (const provider of requested.providers) {
+      const { config, issues } = parseProviderEnv(
+        provider,
+        getProviderDefinition(provider)
+      );
+
+      if (config) {
+        report.enabled.push(provider);
+        report.configs[provider] = config;
+      } else {
+        report.disabled.push(provider);
+        report.issues.push(...issues);
+      }
+    }
+
+    if (report.issues.length > 0) {
+      console.warn(
+        new ProviderConfigurationError(report.issues).message +
+          (report.disabled.length > 0
+            ? `\nDisabled providers: ${report.disabled.join(", ")}`
+            : "")
+      );
+    }
+
+    for (const { providers, variable, route } of FEATURE_SECRETS) {
+      const provider = providers.find((candidate) =>
+        report.enabled.includes(candidate)
+      );
+      if (provider && !process.env[variable]?.trim()) {
+        report.warnings.push({
+          provider,
+          variable,
+          message: `is required for ${route}, which rejects requests without it`,
+        });
+      }
+    }
+    if (report.warnings.length > 0) {
+      console.warn(
+        "Missing secrets for provider requests:\n" +
+          report.warnings
+            .map(({ provider, variable, message }) => {
+              return `  - [${provider}] ${variable}: ${message}`;
+            })
+            .join("\n")
+      );
+    }
+
+    environmentReport = report;
+  }
+
+  if (strict && environmentReport.issues.length > 0) {
+    throw new ProviderConfigurationError(environmentReport.issues);
+  }
+
+  return environmentReport;
+}
+
+/**
+ * Providers whose configuration is complete and valid
+ */
+export function getEnabledProviders(): Provider[] {
+  return validateProviderEnvironment().enabled;
+}
+
+export function isEnabledProvider(provider: string): provider is Provider {
+  return isValidProvider(provider) && getEnabledProviders().includes(provider);
+}
+
+/**
+ * Get the validated environment configuration for a provider
+ */
+export function getProviderEnv(provider: Provider): ProviderEnv {
+  const { configs, issues } = validateProviderEnvironment();
+  const config = configs[provider];
+
+  if (!config) {
+    throw new ProviderConfigurationError(
+      issues.filter((issue) => issue.provider === provider)
+    );
+  }
+  return config;
+}
+
 /**
  * Extended configuration for provider-specific settings
  */
 interface ProviderConfig {
   redirectUri: string;
   scope?: string;
+  scopeDelimiter: " " | ",";
+  optionalScopes: string[];
   usePKCE: boolean;
+  oidc: boolean;
   cookiePrefix: string;
+  authorizationParams: Record<string, string>;
+  addAccountParams: Record<string, string>;
+  upgradeParams: Record<string, string>;
+  apiBaseUrl?: string;
+  quirks: ProviderQuirks;
 }
 
 /**
@@ -31,160 +252,81 @@ interface ProviderConfig {
  * Get oauth4webapi Client configuration
  */
 export function getClient(provider: Provider): oauth.Client {
-  switch (provider) {
-    case "supabase":
-      return {
-        client_id: process.env.SUPABASE_CLIENT_ID!,
-        client_secret: process.env.SUPABASE_CLIENT_SECRET!,
-        token_endpoint_auth_method: "client_secret_basic",
-      };
-    case "github":
-      return {
-        client_id: process.env.GITHUB_CLIENT_ID!,
-        client_secret: process.env.GITHUB_CLIENT_SECRET!,
-        token_endpoint_auth_method: "client_secret_post",
-      };
-    case "clerk":
-      return {
-        client_id: process.env.CLERK_CLIENT_ID!,
-        client_secret: process.env.CLERK_CLIENT_SECRET!,
-        token_endpoint_auth_method: "client_secret_basic",
-      };
-    case "google":
-      return {
-        client_id: process.env.GOOGLE_CLIENT_ID!,
-        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
-        token_endpoint_auth_method: "client_secret_post",
-      };
-    case "slack":
-      return {
-        client_id: process.env.SLACK_CLIENT_ID!,
-        client_secret: process.env.SLACK_CLIENT_SECRET!,
-        token_endpoint_auth_method: "client_secret_post",
-      };
-    case "facebook":
-      return {
-        client_id: process.env.FACEBOOK_CLIENT_ID!,
-        client_secret: process.env.FACEBOOK_CLIENT_SECRET!,
-        token_endpoint_auth_method: "client_secret_post",
-      };
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
-  }
+  const { tokenEndpointAuthMethod } = getProviderDefinition(provider);
+  const { clientId, clientSecret } = getProviderEnv(provider);
+
+  return {
+    client_id: clientId,
+    client_secret: clientSecret,
+    token_endpoint_auth_method: tokenEndpointAuthMethod,
+  };
 }
 
 /**
  * MARK: Authorization Server
  * Get oauth4webapi AuthorizationServer configuration
+ *
+ * Providers with `discovery` only need *_OAUTH_ISSUER; the remaining
+ * endpoints are resolved from the issuer's metadata. Any explicit
+ * *_OAUTH_*_ENDPOINT env var overrides the discovered value.
  */
-export function getAuthorizationServer(
+export async function getAuthorizationServer(
   provider: Provider
-): oauth.AuthorizationServer {
-  switch (provider) {
-    case "supabase":
-      return {
-        issuer: process.env.SUPABASE_OAUTH_ISSUER!,
-        authorization_endpoint:
-          process.env.SUPABASE_OAUTH_AUTHORIZATION_ENDPOINT!,
-        token_endpoint: process.env.SUPABASE_OAUTH_TOKEN_ENDPOINT!,
-        revocation_endpoint: process.env.SUPABASE_OAUTH_REVOCATION_ENDPOINT!,
-        userinfo_endpoint: process.env.SUPABASE_OAUTH_USERINFO_ENDPOINT,
-      };
-    case "github":
-      return {
-        issuer: process.env.GITHUB_OAUTH_ISSUER!,
-        authorization_endpoint:
-          process.env.GITHUB_OAUTH_AUTHORIZATION_ENDPOINT!,
-        token_endpoint: process.env.GITHUB_OAUTH_TOKEN_ENDPOINT!,
-        revocation_endpoint: process.env.GITHUB_OAUTH_REVOCATION_ENDPOINT!,
-        userinfo_endpoint: process.env.GITHUB_OAUTH_USERINFO_ENDPOINT,
-      };
-    case "clerk":
-      return {
-        issuer: process.env.CLERK_OAUTH_ISSUER!,
-        authorization_endpoint: process.env.CLERK_OAUTH_AUTHORIZATION_ENDPOINT!,
-        token_endpoint: process.env.CLERK_OAUTH_TOKEN_ENDPOINT!,
-        revocation_endpoint: process.env.CLERK_OAUTH_REVOCATION_ENDPOINT!,
-        userinfo_endpoint: process.env.CLERK_OAUTH_USERINFO_ENDPOINT,
-      };
-    case "google":
-      return {
-        issuer: process.env.GOOGLE_OAUTH_ISSUER!,
-        authorization_endpoint:
-          process.env.GOOGLE_OAUTH_AUTHORIZATION_ENDPOINT!,
-        token_endpoint: process.env.GOOGLE_OAUTH_TOKEN_ENDPOINT!,
-        userinfo_endpoint: process.env.GOOGLE_OAUTH_USERINFO_ENDPOINT,
-      };
-    case "slack":
-      return {
-        issuer: process.env.SLACK_OAUTH_ISSUER!,
-        authorization_endpoint: process.env.SLACK_OAUTH_AUTHORIZATION_ENDPOINT!,
-        token_endpoint: process.env.SLACK_OAUTH_TOKEN_ENDPOINT!,
-        userinfo_endpoint: process.env.SLACK_OAUTH_USERINFO_ENDPOINT,
-      };
-    case "facebook":
-      return {
-        issuer: process.env.FACEBOOK_OAUTH_ISSUER!,
-        authorization_endpoint:
-          process.env.FACEBOOK_OAUTH_AUTHORIZATION_ENDPOINT!,
-        token_endpoint: process.env.FACEBOOK_OAUTH_TOKEN_ENDPOINT!,
-        revocation_endpoint: process.env.FACEBOOK_OAUTH_REVOCATION_ENDPOINT!,
-        userinfo_endpoint: process.env.FACEBOOK_OAUTH_USERINFO_ENDPOINT,
-      };
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
+): Promise<oauth.AuthorizationServer> {
+  const { discovery } = getProviderDefinition(provider);
+  const env = getProviderEnv(provider);
+
+  const discovered: oauth.AuthorizationServer = discovery
+    ? await discoverAuthorizationServer(env.issuer, discovery)
+    : { issuer: env.issuer };
+
+  const overrides = {
+    authorization_endpoint: env.authorizationEndpoint,
+    token_endpoint: env.tokenEndpoint,
+    revocation_endpoint: env.revocationEndpoint,
+    introspection_endpoint: env.introspectionEndpoint,
+    userinfo_endpoint: env.userinfoEndpoint,
+  };
+
+  return {
+    ...discovered,
+    ...Object.fromEntries(
+      Object.entries(overrides).filter(([, value]) => value !== undefined)
+    ),
+  };
+}
+
+/**
+ * Resolve a path against the provider's API base URL
+ */
+export function getApiUrl(provider: Provider, path: string): string {
+  const { apiBaseUrl } = getProviderConfig(provider);
+  if (!apiBaseUrl) {
+    throw new Error(`No API base URL configured for ${provider}`);
   }
+  return `${apiBaseUrl.replace(/\/$/, "")}${path}`;
 }
 
 /**
  * Get provider-specific configuration
  */
 export function getProviderConfig(provider: Provider): ProviderConfig {
-  switch (provider) {
-    case "supabase":
-      return {
-        redirectUri: process.env.SUPABASE_REDIRECT_URI!,
-        usePKCE: true,
-        cookiePrefix: "supabase_",
-      };
-    case "github":
-      return {
-        redirectUri: process.env.GITHUB_REDIRECT_URI!,
-        scope: "read:user read:org",
-        usePKCE: false,
-        cookiePrefix: "github_",
-      };
-    case "clerk":
-      return {
-        redirectUri: process.env.CLERK_REDIRECT_URI!,
-        scope: "email profile",
-        usePKCE: true,
-        cookiePrefix: "clerk_",
-      };
-    case "google":
-      return {
-        redirectUri: process.env.GOOGLE_REDIRECT_URI!,
-        scope: "openid email profile",
-        usePKCE: true,
-        cookiePrefix: "google_",
-      };
-    case "slack":
-      return {
-        redirectUri: process.env.SLACK_REDIRECT_URI!,
-        scope: "users:read",
-        usePKCE: false,
-        cookiePrefix: "slack_",
-      };
-    case "facebook":
-      return {
-        redirectUri: process.env.FACEBOOK_REDIRECT_URI!,
-        scope: "public_profile",
-        usePKCE: false,
-        cookiePrefix: "facebook_",
-      };
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
-  }
+  const definition = getProviderDefinition(provider);
+
+  return {
+    redirectUri: getProviderEnv(provider).redirectUri,
+    scope: definition.scope,
+    scopeDelimiter: definition.scopeDelimiter ?? " ",
+    optionalScopes: definition.optionalScopes ?? [],
+    usePKCE: definition.usePKCE,
+    oidc: definition.oidc ?? false,
+    cookiePrefix: definition.cookiePrefix,
+    authorizationParams: definition.authorizationParams ?? {},
+    addAccountParams: definition.addAccountParams ?? {},
+    upgradeParams: definition.upgradeParams ?? {},
+    apiBaseUrl: getProviderEnv(provider).apiBaseUrl ?? definition.apiBaseUrl,
+    quirks: definition.quirks ?? {},
+  };
 }
 
 // MARK: Utils
@@ -196,6 +338,10 @@ export function generateState(): string {
   return oauth.generateRandomState();
 }
 
+export function generateNonce(): string {
+  return oauth.generateRandomNonce();
+}
+
 export function generateCodeVerifier(): string {
   return oauth.generateRandomCodeVerifier();
 }
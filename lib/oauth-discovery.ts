@@ -0,0 +1,76 @@
+import * as oauth from "oauth4webapi";
+
+/**
+ * How long discovered metadata is reused before hitting the
+ * well-known endpoint again. Override with OAUTH_DISCOVERY_TTL_SECONDS.
+ */
+const DEFAULT_DISCOVERY_TTL_SECONDS = 60 * 60;
+
+interface CacheEntry {
+  expiresAt: number;
+  metadata: Promise<oauth.AuthorizationServer>;
+}
+
+// In-process cache, keyed by algorithm + issuer
+const cache = new Map<string, CacheEntry>();
+
+function getDiscoveryTTL(): number {
+  const ttl = Number(process.env.OAUTH_DISCOVERY_TTL_SECONDS);
+  const seconds =
+    Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_DISCOVERY_TTL_SECONDS;
+  return seconds * 1000;
+}
+
+/**
+ * Plain HTTP is only allowed for loopback issuers,
+ * e.g. a local stand-in metadata server during development and tests.
+ */
+export function isLoopbackURL(url: URL): boolean {
+  return (
+    url.protocol === "http:" &&
+    ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname)
+  );
+}
+
+/**
+ * Resolve authorization server metadata from the issuer's well-known endpoint.
+ * https://github.com/panva/oauth4webapi/blob/main/docs/functions/discoveryRequest.md
+ */
+export async function discoverAuthorizationServer(
+  issuer: string,
+  algorithm: "oidc" | "oauth2" = "oidc"
+): Promise<oauth.AuthorizationServer> {
+  const key = `${algorithm}:${issuer}`;
+  const cached = cache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  const issuerUrl = new URL(issuer);
+  const metadata = oauth
+    .discoveryRequest(issuerUrl, {
+      algorithm,
+      [oauth.allowInsecureRequests]: isLoopbackURL(issuerUrl),
+    })
+    .then((response) => oauth.processDiscoveryResponse(issuerUrl, response));
+
+  cache.set(key, { expiresAt: Date.now() + getDiscoveryTTL(), metadata });
+
+  try {
+    return await metadata;
+  } catch (error) {
+    // Don't cache failures
+    if (cache.get(key)?.metadata === metadata) {
+      cache.delete(key);
+    }
+    console.error(`Error discovering metadata for ${issuer}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Drop all cached metadata
+ */
+export function clearDiscoveryCache(): void {
+  cache.clear();
+}
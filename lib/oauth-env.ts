@@ -0,0 +1,181 @@
+import type { ProviderDefinition } from "./providers/types";
+import { isLoopbackURL } from "./oauth-discovery";
+
+/**
+ * Validated environment configuration for a single provider
+ */
+export interface ProviderEnv {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  issuer: string;
+  authorizationEndpoint?: string;
+  tokenEndpoint?: string;
+  revocationEndpoint?: string;
+  introspectionEndpoint?: string;
+  userinfoEndpoint?: string;
+  apiBaseUrl?: string;
+}
+
+export interface ProviderEnvIssue {
+  provider: string;
+  variable: string;
+  message: string;
+}
+
+export class ProviderConfigurationError extends Error {
+  issues: ProviderEnvIssue[];
+
+  constructor(issues: ProviderEnvIssue[]) {
+    super(
+      "Invalid OAuth provider configuration:\n" +
+        issues
+          .map(({ provider, variable, message }) => {
+            return `  - [${provider}] ${variable}: ${message}`;
+          })
+          .join("\n")
+    );
+    this.name = "ProviderConfigurationError";
+    this.issues = issues;
+  }
+}
+
+interface EnvRule {
+  key: keyof ProviderEnv;
+  suffix: string;
+  kind: "string" | "url";
+  required: (definition: ProviderDefinition) => boolean;
+}
+
+const always = () => true;
+const never = () => false;
+const withoutDiscovery = (definition: ProviderDefinition) =>
+  !definition.discovery;
+
+/**
+ * MARK: Schema
+ * Variables are named `${envPrefix}_${suffix}`
+ */
+const PROVIDER_ENV_SCHEMA: EnvRule[] = [
+  { key: "clientId", suffix: "CLIENT_ID", kind: "string", required: always },
+  {
+    key: "clientSecret",
+    suffix: "CLIENT_SECRET",
+    kind: "string",
+    required: always,
+  },
+  { key: "redirectUri", suffix: "REDIRECT_URI", kind: "url", required: always },
+  { key: "issuer", suffix: "OAUTH_ISSUER", kind: "url", required: always },
+  {
+    key: "authorizationEndpoint",
+    suffix: "OAUTH_AUTHORIZATION_ENDPOINT",
+    kind: "url",
+    required: withoutDiscovery,
+  },
+  {
+    key: "tokenEndpoint",
+    suffix: "OAUTH_TOKEN_ENDPOINT",
+    kind: "url",
+    required: withoutDiscovery,
+  },
+  {
+    key: "revocationEndpoint",
+    suffix: "OAUTH_REVOCATION_ENDPOINT",
+    kind: "url",
+    required: never,
+  },
+  {
+    key: "introspectionEndpoint",
+    suffix: "OAUTH_INTROSPECTION_ENDPOINT",
+    kind: "url",
+    required: never,
+  },
+  {
+    key: "userinfoEndpoint",
+    suffix: "OAUTH_USERINFO_ENDPOINT",
+    kind: "url",
+    required: never,
+  },
+  { key: "apiBaseUrl", suffix: "API_URL", kind: "url", required: never },
+];
+
+function checkURL(value: string): string | undefined {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "must be an absolute URL";
+  }
+  if (url.protocol !== "https:" && !isLoopbackURL(url)) {
+    return "must use https (plain http is only allowed for localhost)";
+  }
+  return undefined;
+}
+
+/**
+ * Parse and validate a provider's environment variables.
+ * Collects every issue instead of stopping at the first one.
+ */
+export function parseProviderEnv(
+  provider: string,
+  definition: ProviderDefinition,
+  env: Record<string, string | undefined> = process.env
+): { config?: ProviderEnv; issues: ProviderEnvIssue[] } {
+  const issues: ProviderEnvIssue[] = [];
+  const config: Partial<ProviderEnv> = {};
+
+  for (const rule of PROVIDER_ENV_SCHEMA) {
+    const variable = `${definition.envPrefix}_${rule.suffix}`;
+    const value = env[variable]?.trim();
+
+    if (!value) {
+      if (rule.required(definition)) {
+        issues.push({ provider, variable, message: "is required" });
+      }
+      continue;
+    }
+
+    const message = rule.kind === "url" ? checkURL(value) : undefined;
+    if (message) {
+      issues.push({ provider, variable, message });
+      continue;
+    }
+
+    config[rule.key] = value;
+  }
+
+  // Redirect URIs must point back at this app's callback route
+  if (config.redirectUri) {
+    const variable = `${definition.envPrefix}_REDIRECT_URI`;
+    const redirectUri = new URL(config.redirectUri);
+    const expectedPath = `/api/oauth/${provider}/callback`;
+
+    const appOrigin = env.APP_URL && URL.parse(env.APP_URL)?.origin;
+
+    if (env.APP_URL && !appOrigin) {
+      issues.push({
+        provider,
+        variable: "APP_URL",
+        message: "must be an absolute URL",
+      });
+    } else if (appOrigin && redirectUri.origin !== appOrigin) {
+      issues.push({
+        provider,
+        variable,
+        message: `origin ${redirectUri.origin} does not match APP_URL ${appOrigin}`,
+      });
+    }
+    if (redirectUri.pathname !== expectedPath) {
+      issues.push({
+        provider,
+        variable,
+        message: `path must be ${expectedPath}`,
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    return { issues };
+  }
+  return { config: config as ProviderEnv, issues };
+}
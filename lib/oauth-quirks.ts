@@ -0,0 +1,198 @@
+import * as oauth from "oauth4webapi";
+
+import { getProviderDefinition, Provider } from "./oauth-config";
+import { isLoopbackURL } from "./oauth-discovery";
+import type {
+  ProviderMiddleware,
+  ProviderQuirks,
+  ProviderRequestKind,
+} from "./providers/types";
+
+// MARK: Built-in middleware
+
+/**
+ * RFC 6749 Section 2.3.1 states that the clientID and password
+ * are to be encoded via "application/x-www-form-urlencoded".
+ * Some providers (e.g., Supabase) don't comply with that,
+ * so base64 encode the plain strings instead.
+ */
+const plainBasicAuth: ProviderMiddleware = {
+  request(request) {
+    const [scheme, credentials] =
+      request.headers.get("Authorization")?.split(" ") ?? [];
+    if (scheme !== "Basic" || !credentials) {
+      return request;
+    }
+
+    const formDecode = (value: string) =>
+      decodeURIComponent(value.replace(/\+/g, " "));
+    const [clientId, clientSecret] = atob(credentials).split(":");
+
+    const headers = new Headers(request.headers);
+    headers.set(
+      "Authorization",
+      `Basic ${btoa(`${formDecode(clientId)}:${formDecode(clientSecret)}`)}`
+    );
+    return new Request(request, { headers });
+  },
+};
+
+/**
+ * Unlike the 200 status as specified in RFC 6749,
+ * some providers (e.g., Supabase) return 201 from the token endpoint
+ */
+const tokenResponseStatus201: ProviderMiddleware = {
+  response(response, { kind }) {
+    if (response.status !== 201 || (kind !== "token" && kind !== "refresh")) {
+      return response;
+    }
+    return withStatus(response, 200);
+  },
+};
+
+/**
+ * Some providers (e.g., GitHub) return token endpoint errors with a 200
+ * status, which oauth4webapi would reject as a malformed token response
+ */
+const errorResponseStatus200: ProviderMiddleware = {
+  async response(response, { kind }) {
+    if (response.status !== 200 || (kind !== "token" && kind !== "refresh")) {
+      return response;
+    }
+    const body = await readJSON(response);
+    if (typeof body?.error !== "string") {
+      return response;
+    }
+    return withStatus(response, 400);
+  },
+};
+
+/**
+ * Slack-style `{ ok: false, error }` envelopes are mapped onto
+ * RFC 6749 Section 5.2 error responses
+ */
+const okEnvelope: ProviderMiddleware = {
+  async response(response) {
+    const body = await readJSON(response);
+    if (body?.ok !== false) {
+      return response;
+    }
+    return Response.json(
+      { error: typeof body.error === "string" ? body.error : "server_error" },
+      { status: 400, headers: response.headers }
+    );
+  },
+};
+
+/**
+ * Token responses with a provider-specific token_type (e.g., Slack's
+ * "bot") are bearer tokens; report them as such
+ */
+const customTokenType: ProviderMiddleware = {
+  async response(response, { kind }) {
+    if (!response.ok || (kind !== "token" && kind !== "refresh")) {
+      return response;
+    }
+    const body = await readJSON(response);
+    if (typeof body?.token_type !== "string" || body.token_type === "bearer") {
+      return response;
+    }
+    return Response.json(
+      { ...body, token_type: "bearer" },
+      { status: response.status, headers: response.headers }
+    );
+  },
+};
+
+const QUIRK_MIDDLEWARE: Record<keyof ProviderQuirks, ProviderMiddleware> = {
+  plainBasicAuth,
+  tokenResponseStatus201,
+  errorResponseStatus200,
+  okEnvelope,
+  customTokenType,
+};
+
+// MARK: Helpers
+
+function withStatus(response: Response, status: number): Response {
+  return new Response(response.body, {
+    status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+async function readJSON(
+  response: Response
+): Promise<Record<string, unknown> | undefined> {
+  try {
+    const body = await response.clone().json();
+    return body && typeof body === "object" ? body : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Built-in middleware for the provider's declared quirks,
+ * followed by its custom middleware
+ */
+function getMiddleware(provider: Provider): ProviderMiddleware[] {
+  const { quirks = {}, middleware = [] } = getProviderDefinition(provider);
+
+  return [
+    ...(Object.keys(quirks) as (keyof ProviderQuirks)[])
+      .filter((quirk) => quirks[quirk])
+      .map((quirk) => QUIRK_MIDDLEWARE[quirk]),
+    ...middleware,
+  ];
+}
+
+// MARK: Pipeline
+
+/**
+ * fetch() that runs the provider's middleware around the request
+ */
+export function createProviderFetch(
+  provider: Provider,
+  kind: ProviderRequestKind
+) {
+  const middleware = getMiddleware(provider);
+  const context = { provider, kind };
+
+  return async (input: string | URL, init?: RequestInit): Promise<Response> => {
+    let request = new Request(input, init);
+    for (const { request: transform } of middleware) {
+      if (transform) {
+        request = await transform(request, context);
+      }
+    }
+
+    let response = await fetch(request);
+    for (const { response: transform } of middleware) {
+      if (transform) {
+        response = await transform(response, context);
+      }
+    }
+    return response;
+  };
+}
+
+/**
+ * Options for oauth4webapi requests against a provider's authorization server.
+ * Plain HTTP is only allowed for loopback issuers (e.g., the mock server).
+ */
+export function getRequestOptions(
+  provider: Provider,
+  authorizationServer: oauth.AuthorizationServer,
+  kind?: ProviderRequestKind
+) {
+  const providerFetch = kind && createProviderFetch(provider, kind);
+
+  return {
+    [oauth.allowInsecureRequests]: isLoopbackURL(
+      new URL(authorizationServer.issuer)
+    ),
+    ...(providerFetch && { [oauth.customFetch]: providerFetch }),
+  };
+}
@@ -0,0 +1,45 @@
+import type { ProviderDefinition } from "./types";
+import { getBoolean, getString } from "./utils";
+
+/**
+ * ID token and userinfo claims
+ * https://clerk.com/docs/advanced-usage/clerk-idp
+ */
+type ClerkClaims = {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  preferred_username?: string;
+  username?: string;
+  picture?: string;
+};
+
+export const clerk: ProviderDefinition = {
+  envPrefix: "CLERK",
+  discovery: "oidc",
+  oidc: true,
+  tokenEndpointAuthMethod: "client_secret_basic",
+  scope: "openid email profile",
+  usePKCE: true,
+  cookiePrefix: "clerk_",
+  addAccountParams: { prompt: "login" },
+  mapUserInfo: (data) => {
+    const claims = data as ClerkClaims;
+    const fullName = [claims.given_name, claims.family_name]
+      .filter(Boolean)
+      .join(" ");
+
+    return {
+      id: claims.sub,
+      email: getString(claims.email),
+      email_verified: getBoolean(claims.email_verified),
+      name: getString(claims.name) || fullName || undefined,
+      username:
+        getString(claims.preferred_username) || getString(claims.username),
+      avatar_url: getString(claims.picture),
+    };
+  },
+};
@@ -0,0 +1,44 @@
+import type { ProviderDefinition } from "./types";
+import { fetchJSON, getString } from "./utils";
+
+/**
+ * GET /me?fields=...
+ * https://developers.facebook.com/docs/graph-api/reference/user
+ */
+type FacebookUser = {
+  id: string;
+  name?: string;
+  email?: string; // Requires the email permission
+  link?: string; // Requires the user_link permission
+  picture?: { data: { url: string; is_silhouette: boolean } };
+};
+
+const FACEBOOK_FIELDS = "id,name,email,link,picture.type(large)";
+
+export const facebook: ProviderDefinition = {
+  envPrefix: "FACEBOOK",
+  tokenEndpointAuthMethod: "client_secret_post",
+  scope: "public_profile email",
+  usePKCE: false,
+  cookiePrefix: "facebook_",
+  addAccountParams: { auth_type: "reauthenticate" },
+  apiBaseUrl: "https://graph.facebook.com/v21.0",
+  fetchProfile: (context) =>
+    fetchJSON<FacebookUser>(
+      context,
+      `/me?fields=${encodeURIComponent(FACEBOOK_FIELDS)}`
+    ),
+  mapUserInfo: (data) => {
+    const user = data as FacebookUser;
+
+    return {
+      id: user.id,
+      email: getString(user.email),
+      name: getString(user.name),
+      avatar_url: user.picture?.data.is_silhouette
+        ? undefined
+        : getString(user.picture?.data.url),
+      profile_url: getString(user.link),
+    };
+  },
+};
@@ -0,0 +1,19 @@
+import { github } from "./github";
+import type { ProviderDefinition } from "./types";
+
+/**
+ * GitHub App user-to-server tokens. Same endpoints, profile and token
+ * check API as the OAuth App, but access is governed by the app's
+ * permissions and installations rather than scopes. Access tokens expire
+ * after 8 hours and come with a refresh token that rotates on use.
+ * https://docs.github.com/en/apps/creating-github-apps/authenticating-with-a-github-app/generating-a-user-access-token-for-a-github-app
+ */
+export const githubApp: ProviderDefinition = {
+  ...github,
+  envPrefix: "GITHUB_APP",
+  // Permissions are set on the app; requested scopes are ignored
+  scope: undefined,
+  optionalScopes: undefined,
+  usePKCE: true,
+  cookiePrefix: "github_app_",
+};
@@ -0,0 +1,139 @@
+import type {
+  ProfileFetcherContext,
+  ProviderDefinition,
+  TokenCheckContext,
+  TokenIntrospection,
+} from "./types";
+import { fetchJSON, getString } from "./utils";
+
+/**
+ * GET /user
+ * https://docs.github.com/en/rest/users/users#get-the-authenticated-user
+ */
+type GitHubUser = {
+  id: number;
+  login: string;
+  name: string | null;
+  email: string | null; // Public profile email, often null
+  avatar_url: string;
+  html_url: string;
+};
+
+/**
+ * GET /user/emails (requires the user:email scope)
+ * https://docs.github.com/en/rest/users/emails#list-email-addresses-for-the-authenticated-user
+ */
+type GitHubEmail = {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+  visibility: "public" | "private" | null;
+};
+
+type GitHubProfile = GitHubUser & { emails?: GitHubEmail[] };
+
+const GITHUB_HEADERS = { Accept: "application/vnd.github+json" };
+
+async function fetchGitHubProfile(
+  context: ProfileFetcherContext
+): Promise<GitHubProfile> {
+  const user = await fetchJSON<GitHubUser>(context, "/user", GITHUB_HEADERS);
+
+  // Missing the user:email scope shouldn't fail the whole profile
+  const emails = await fetchJSON<GitHubEmail[]>(
+    context,
+    "/user/emails",
+    GITHUB_HEADERS
+  ).catch(() => undefined);
+
+  return { ...user, emails };
+}
+
+/**
+ * POST /applications/{client_id}/token
+ * https://docs.github.com/en/rest/apps/oauth-applications#check-a-token
+ */
+type GitHubTokenCheck = {
+  scopes: string[];
+  expires_at: string | null;
+  app: { client_id: string };
+  user: { id: number; login: string } | null;
+};
+
+/**
+ * GitHub has no RFC 7662 endpoint; its token check API authenticates
+ * the OAuth app with Basic auth and answers 404 for unknown tokens
+ */
+async function checkGitHubToken({
+  accessToken,
+  clientId,
+  clientSecret,
+  apiUrl,
+  fetch,
+}: TokenCheckContext): Promise<TokenIntrospection> {
+  const response = await fetch(
+    apiUrl(`/applications/${encodeURIComponent(clientId)}/token`),
+    {
+      method: "POST",
+      headers: {
+        ...GITHUB_HEADERS,
+        Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ access_token: accessToken }),
+    }
+  );
+
+  if (response.status === 404) {
+    return { active: false };
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Failed to check token: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const token: GitHubTokenCheck = await response.json();
+  return {
+    active: true,
+    scope: token.scopes.join(" "),
+    exp: token.expires_at
+      ? Math.floor(Date.parse(token.expires_at) / 1000)
+      : undefined,
+    client_id: token.app.client_id,
+    sub: token.user ? String(token.user.id) : undefined,
+  };
+}
+
+export const github: ProviderDefinition = {
+  envPrefix: "GITHUB",
+  tokenEndpointAuthMethod: "client_secret_post",
+  scope: "read:user user:email read:org",
+  optionalScopes: ["repo"],
+  usePKCE: false,
+  cookiePrefix: "github_",
+  addAccountParams: { prompt: "select_account" },
+  apiBaseUrl: "https://api.github.com",
+  fetchProfile: fetchGitHubProfile,
+  checkToken: checkGitHubToken,
+  mapUserInfo: (data) => {
+    const profile = data as GitHubProfile;
+    const primary = profile.emails?.find(
+      ({ primary, verified }) => primary && verified
+    );
+
+    return {
+      id: String(profile.id),
+      email: primary?.email ?? getString(profile.email),
+      // The public profile email isn't necessarily verified
+      email_verified: primary ? true : undefined,
+      name: getString(profile.name),
+      username: getString(profile.login),
+      avatar_url: getString(profile.avatar_url),
+      profile_url: getString(profile.html_url),
+    };
+  },
+  quirks: {
+    errorResponseStatus200: true,
+  },
+};
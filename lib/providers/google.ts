@@ -0,0 +1,43 @@
+import type { ProviderDefinition } from "./types";
+import { getBoolean, getString } from "./utils";
+
+/**
+ * ID token and userinfo claims
+ * https://developers.google.com/identity/openid-connect/openid-connect#an-id-tokens-payload
+ */
+type GoogleClaims = {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+  locale?: string;
+  /** Google Workspace domain, absent for consumer accounts */
+  hd?: string;
+};
+
+export const google: ProviderDefinition = {
+  envPrefix: "GOOGLE",
+  discovery: "oidc",
+  oidc: true,
+  tokenEndpointAuthMethod: "client_secret_post",
+  scope: "openid email profile",
+  usePKCE: true,
+  cookiePrefix: "google_",
+  addAccountParams: { prompt: "select_account" },
+  // Keep previously granted scopes when asking for more
+  upgradeParams: { include_granted_scopes: "true" },
+  mapUserInfo: (data) => {
+    const claims = data as GoogleClaims;
+
+    return {
+      id: claims.sub,
+      email: getString(claims.email),
+      email_verified: getBoolean(claims.email_verified),
+      name: getString(claims.name),
+      avatar_url: getString(claims.picture),
+      locale: getString(claims.locale),
+      organization: claims.hd ? { id: claims.hd } : undefined,
+    };
+  },
+};
@@ -0,0 +1,128 @@
+import type * as oauth from "oauth4webapi";
+import {
+  ErrorCode,
+  WebClient,
+  type OauthV2AccessResponse,
+  type WebAPIPlatformError,
+} from "@slack/web-api";
+
+import type {
+  ConnectionTokenResponse,
+  ProfileFetcherContext,
+  ProviderDefinition,
+} from "./types";
+import { getString } from "./utils";
+
+/**
+ * users.identity, for "Sign in with Slack" tokens (identity.* scopes)
+ * https://api.slack.com/methods/users.identity
+ */
+type SlackIdentity = {
+  method: "users.identity";
+  user: { id: string; name?: string; email?: string; image_192?: string };
+  team: { id: string; name?: string };
+};
+
+/**
+ * auth.test, for every other token
+ * https://api.slack.com/methods/auth.test
+ */
+type SlackAuthTest = {
+  method: "auth.test";
+  user_id: string;
+  user: string;
+  team_id: string;
+  team: string;
+  url: string;
+};
+
+type SlackProfile = SlackIdentity | SlackAuthTest;
+
+// users.identity errors that mean the token can't use it
+const IDENTITY_UNAVAILABLE = ["missing_scope", "not_allowed_token_type"];
+
+async function fetchSlackProfile({
+  accessToken,
+  apiUrl,
+}: ProfileFetcherContext): Promise<SlackProfile> {
+  const client = new WebClient(accessToken, { slackApiUrl: apiUrl("/") });
+
+  try {
+    const identity = await client.users.identity({});
+    return { ...identity, method: "users.identity" } as SlackIdentity;
+  } catch (error) {
+    const { code, data } = error as WebAPIPlatformError;
+    if (
+      code !== ErrorCode.PlatformError ||
+      !IDENTITY_UNAVAILABLE.includes(data.error)
+    ) {
+      throw error;
+    }
+  }
+
+  const auth = await client.auth.test();
+  return { ...auth, method: "auth.test" } as SlackAuthTest;
+}
+
+/**
+ * oauth.v2.access returns the bot token at the top level and the
+ * installing user's token under `authed_user`. Connections belong to a
+ * user, so they keep the user token; the bot token is stored with the
+ * workspace installation (lib/slack-installations.ts).
+ * https://api.slack.com/methods/oauth.v2.access
+ */
+function selectUserToken(
+  response: oauth.TokenEndpointResponse
+): ConnectionTokenResponse {
+  const { authed_user } = response as unknown as OauthV2AccessResponse;
+  if (!authed_user?.access_token) {
+    return response;
+  }
+  return {
+    access_token: authed_user.access_token,
+    refresh_token: authed_user.refresh_token,
+    expires_in: authed_user.expires_in,
+    scope: authed_user.scope,
+  };
+}
+
+export const slack: ProviderDefinition = {
+  envPrefix: "SLACK",
+  tokenEndpointAuthMethod: "client_secret_post",
+  // Bot scopes, granted to the workspace installation
+  scope: "channels:read,users:read",
+  scopeDelimiter: ",",
+  usePKCE: false,
+  cookiePrefix: "slack_",
+  // Scopes of the installing user's own token
+  authorizationParams: { user_scope: "users:read" },
+  apiBaseUrl: "https://slack.com/api",
+  selectConnectionToken: selectUserToken,
+  fetchProfile: fetchSlackProfile,
+  mapUserInfo: (data) => {
+    const profile = data as SlackProfile;
+
+    if (profile.method === "auth.test") {
+      return {
+        id: profile.user_id,
+        name: getString(profile.user),
+        username: getString(profile.user),
+        profile_url: `${profile.url}team/${profile.user_id}`,
+        organization: { id: profile.team_id, name: profile.team },
+      };
+    }
+
+    const { user, team } = profile;
+    return {
+      id: user.id,
+      email: getString(user.email),
+      name: getString(user.name),
+      avatar_url: getString(user.image_192),
+      organization: { id: team.id, name: team.name },
+    };
+  },
+  quirks: {
+    okEnvelope: true,
+    customTokenType: true,
+  },
+};
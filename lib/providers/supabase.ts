@@ -0,0 +1,23 @@
+import type { ProviderDefinition } from "./types";
+import { getBoolean, getString } from "./utils";
+
+export const supabase: ProviderDefinition = {
+  envPrefix: "SUPABASE",
+  tokenEndpointAuthMethod: "client_secret_basic",
+  usePKCE: true,
+  cookiePrefix: "supabase_",
+  // Management API, see lib/supabase-api.ts
+  apiBaseUrl: "https://api.supabase.com",
+  mapUserInfo: (data) => ({
+    id: getString(data.sub) || getString(data.id) || "",
+    email: getString(data.email),
+    email_verified: getBoolean(data.email_verified),
+    name: getString(data.name),
+    username: getString(data.preferred_username) || getString(data.username),
+    avatar_url: getString(data.picture) || getString(data.avatar_url),
+  }),
+  quirks: {
+    plainBasicAuth: true,
+    tokenResponseStatus201: true,
+  },
+};
@@ -0,0 +1,215 @@
+import type * as oauth from "oauth4webapi";
+import type { Provider } from "../oauth-config";
+
+/**
+ * Generic user info structure
+ * Keep this for convenience as oauth4webapi's UserInfoResponse is generic
+ */
+export interface UserInfo {
+  provider: Provider;
+  id: string;
+  email?: string;
+  /** Whether the provider has verified the email; undefined when unknown */
+  email_verified?: boolean;
+  name?: string;
+  username?: string;
+  avatar_url?: string;
+  /** BCP 47 language tag, e.g. "en-US" */
+  locale?: string;
+  /** The account's profile page on the provider */
+  profile_url?: string;
+  /** Organization, team or workspace the account belongs to */
+  organization?: { id: string; name?: string };
+  raw: Record<string, unknown>; // Original provider response
+}
+
+/**
+ * Provider-specific part of UserInfo, produced by mapUserInfo
+ */
+export type NormalizedProfile = Omit<UserInfo, "provider" | "raw">;
+
+/**
+ * Provider-specific deviations from the OAuth 2.0 specs
+ */
+export interface ProviderQuirks {
+  /**
+   * RFC 6749 Section 2.3.1 states that the clientID and password
+   * are to be encoded via "application/x-www-form-urlencoded".
+   * Some providers (e.g., Supabase) expect the plain strings to be base64 encoded instead.
+   */
+  plainBasicAuth?: boolean;
+  /**
+   * Unlike the 200 status as specified in RFC 6749, some providers
+   * (e.g., Supabase) return 201 from the token endpoint.
+   */
+  tokenResponseStatus201?: boolean;
+  /**
+   * Some providers (e.g., GitHub) report token endpoint errors
+   * with a 200 status instead of 400.
+   */
+  errorResponseStatus200?: boolean;
+  /**
+   * Some providers (e.g., Slack) wrap every response in an `{ ok, error }`
+   * envelope and report failures with a 200 status.
+   */
+  okEnvelope?: boolean;
+  /**
+   * Some providers (e.g., Slack) type their bearer tokens as "bot" or
+   * "user", which oauth4webapi rejects as an unsupported token_type.
+   */
+  customTokenType?: boolean;
+}
+
+/**
+ * The kind of authorization server request a middleware runs for
+ */
+export type ProviderRequestKind =
+  "token" | "refresh" | "revocation" | "introspection" | "userinfo";
+
+export interface ProviderMiddlewareContext {
+  provider: string;
+  kind: ProviderRequestKind;
+}
+
+/**
+ * Transforms applied to requests sent to a provider and to its responses
+ * before oauth4webapi processes them
+ */
+export interface ProviderMiddleware {
+  request?: (
+    request: Request,
+    context: ProviderMiddlewareContext
+  ) => Request | Promise<Request>;
+  response?: (
+    response: Response,
+    context: ProviderMiddlewareContext
+  ) => Response | Promise<Response>;
+}
+
+/**
+ * What a profile fetcher calls the provider's API with
+ */
+export interface ProfileFetcherContext {
+  accessToken: string;
+  /** Resolve a path against the provider's API base URL */
+  apiUrl: (path: string) => string;
+  /** fetch() that runs the provider's middleware */
+  fetch: (input: string | URL, init?: RequestInit) => Promise<Response>;
+}
+
+/**
+ * What a provider-specific token check is called with
+ */
+export interface TokenCheckContext extends ProfileFetcherContext {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * The subset of an RFC 7662 introspection response the app relies on
+ */
+export interface TokenIntrospection {
+  active: boolean;
+  /** Space-delimited scopes */
+  scope?: string;
+  /** Epoch seconds */
+  exp?: number;
+  client_id?: string;
+  sub?: string;
+}
+
+/**
+ * The token a connection stores, picked from a token endpoint response
+ */
+export interface ConnectionTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * Declarative definition of an OAuth provider.
+ * Everything the routes need to know about a provider lives here.
+ */
+export interface ProviderDefinition {
+  /**
+   * Prefix of the provider's environment variables, e.g. "GITHUB" for
+   * GITHUB_CLIENT_ID, GITHUB_OAUTH_TOKEN_ENDPOINT, GITHUB_REDIRECT_URI...
+   */
+  envPrefix: string;
+  /**
+   * Resolve endpoints from the issuer's well-known metadata.
+   * "oidc" for /.well-known/openid-configuration, "oauth2" for RFC 8414.
+   * Explicit *_OAUTH_*_ENDPOINT env vars still take precedence.
+   */
+  discovery?: "oidc" | "oauth2";
+  /**
+   * OpenID Connect provider: a nonce is sent with the authorization request
+   * and the ID token is required and validated against the issuer's JWKS.
+   */
+  oidc?: boolean;
+  tokenEndpointAuthMethod: "client_secret_basic" | "client_secret_post";
+  scope?: string;
+  /** How requested scopes are joined; Slack expects commas */
+  scopeDelimiter?: " " | ",";
+  /**
+   * Scopes features may ask for on top of `scope`, offered as upgrades
+   * of an existing connection (e.g., GitHub's `repo`)
+   */
+  optionalScopes?: string[];
+  usePKCE: boolean;
+  cookiePrefix: string;
+  /**
+   * Extra authorization parameters sent with every authorization request
+   * (e.g., Slack's user_scope)
+   */
+  authorizationParams?: Record<string, string>;
+  /**
+   * Extra authorization parameters used when connecting an additional
+   * account, so the provider lets the user pick a different one
+   */
+  addAccountParams?: Record<string, string>;
+  /**
+   * Extra authorization parameters used when upgrading a connection
+   * with additional scopes (e.g., Google's include_granted_scopes)
+   */
+  upgradeParams?: Record<string, string>;
+  /**
+   * Base URL of the provider's REST API (e.g., https://api.github.com).
+   * Can be overridden with ${envPrefix}_API_URL, e.g. to point at a mock server.
+   */
+  apiBaseUrl?: string;
+  /**
+   * Fetch the profile from the provider's own API instead of an OIDC
+   * userinfo endpoint (e.g., GitHub's /user). The result is passed to
+   * mapUserInfo and kept as UserInfo.raw.
+   */
+  fetchProfile?: (
+    context: ProfileFetcherContext
+  ) => Promise<Record<string, unknown>>;
+  /**
+   * Pick the connection's token from a token response carrying several
+   * (e.g., Slack's bot token and `authed_user` token). Defaults to the
+   * response's own access_token.
+   */
+  selectConnectionToken?: (
+    response: oauth.TokenEndpointResponse
+  ) => ConnectionTokenResponse;
+  /**
+   * Map the provider's userinfo response onto the generic UserInfo shape.
+   * Falls back to a best-effort mapping when omitted.
+   */
+  mapUserInfo?: (data: Record<string, unknown>) => NormalizedProfile;
+  /**
+   * Check a token with the provider's own API (e.g., GitHub's
+   * POST /applications/{client_id}/token) when it has no RFC 7662
+   * introspection endpoint
+   */
+  checkToken?: (context: TokenCheckContext) => Promise<TokenIntrospection>;
+  quirks?: ProviderQuirks;
+  /**
+   * Custom middleware, run after the built-in middleware for `quirks`
+   */
+  middleware?: ProviderMiddleware[];
+}
@@ -0,0 +1,64 @@
+import type { NormalizedProfile, ProfileFetcherContext } from "./types";
+
+/**
+ * Helper to safely extract string values
+ */
+export const getString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+/**
+ * Helper to safely extract boolean values
+ * (some providers send "true"/"false" strings)
+ */
+export const getBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  return value === "true" ? true : value === "false" ? false : undefined;
+};
+
+/**
+ * Best-effort mapping for providers without a dedicated mapUserInfo,
+ * based on the standard OIDC claims
+ */
+export function defaultUserInfoMapping(
+  data: Record<string, unknown>
+): NormalizedProfile {
+  return {
+    id: String(data.id || data.sub || ""),
+    email: getString(data.email),
+    email_verified: getBoolean(data.email_verified),
+    name: getString(data.name),
+    username:
+      getString(data.username) ||
+      getString(data.login) ||
+      getString(data.preferred_username),
+    avatar_url: getString(data.avatar_url) || getString(data.picture),
+    locale: getString(data.locale),
+    profile_url: getString(data.profile) || getString(data.html_url),
+  };
+}
+
+/**
+ * GET a JSON resource from the provider's API with the access token
+ */
+export async function fetchJSON<T>(
+  { accessToken, apiUrl, fetch }: ProfileFetcherContext,
+  path: string,
+  headers: Record<string, string> = {}
+): Promise<T> {
+  const response = await fetch(apiUrl(path), {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/json",
+      ...headers,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch ${path}: ${response.status} ${response.statusText}`
+    );
+  }
+  return response.json();
+}
@@ -0,0 +1,47 @@
+/**
+ * Split a scope string into individual scopes.
+ * Providers delimit scopes with spaces (RFC 6749) or commas (e.g., Slack).
+ */
+export function parseScope(scope: string | null | undefined): string[] {
+  return [...new Set(scope?.split(/[\s,]+/).filter(Boolean) ?? [])];
+}
+
+/**
+ * Union of several scope strings or lists, in first-seen order
+ */
+export function mergeScopes(
+  ...scopes: (string | string[] | null | undefined)[]
+): string[] {
+  return parseScope(
+    scopes
+      .map((scope) => (Array.isArray(scope) ? scope.join(" ") : scope))
+      .join(" ")
+  );
+}
+
+/**
+ * Scopes in `required` that aren't in `granted`
+ */
+export function missingScopes(
+  granted: string | string[] | undefined,
+  required: string[]
+): string[] {
+  const grantedScopes = new Set(mergeScopes(granted));
+  return required.filter((scope) => !grantedScopes.has(scope));
+}
+
+/**
+ * Authorize URL that upgrades a connection with additional scopes,
+ * keeping the ones already granted
+ */
+export function getUpgradeUrl(
+  provider: string,
+  scopes: string[],
+  accountId?: string
+): string {
+  const params = new URLSearchParams({ scope: scopes.join(" ") });
+  if (accountId) {
+    params.set("account", accountId);
+  }
+  return `/api/oauth/${provider}/authorize?${params}`;
+}
@@ -0,0 +1,99 @@
+import "server-only";
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+// MARK: Keys
+
+const ALGORITHM = "aes-256-gcm";
+const SEAL_VERSION = "v1";
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Parse TOKEN_ENCRYPTION_KEYS, a comma separated list of `<key id>:<base64 32-byte key>`.
+ * The first key seals new values; the others are only used to unseal,
+ * so keys can be rotated by prepending a new one.
+ *
+ * Generate a key with `openssl rand -base64 32`.
+ */
+export function getEncryptionKeys(): EncryptionKey[] {
+  const value = process.env.TOKEN_ENCRYPTION_KEYS;
+  if (!value) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS is required");
+  }
+
+  return value.split(",").map((entry) => {
+    const [id, encoded] = entry.trim().split(":");
+    const key = Buffer.from(encoded ?? "", "base64");
+
+    if (!id || key.length !== 32) {
+      throw new Error(
+        "TOKEN_ENCRYPTION_KEYS entries must be <key id>:<base64 32-byte key>"
+      );
+    }
+    return { id, key };
+  });
+}
+
+// MARK: Seal
+
+/**
+ * Encrypt a value with AES-256-GCM.
+ * `context` is authenticated too, so a sealed value can't be moved elsewhere
+ * (e.g. to another cookie or store record).
+ * Format: v1.<key id>.<iv>.<ciphertext>.<auth tag>
+ */
+export function seal(value: string, context: string): string {
+  const [{ id, key }] = getEncryptionKeys();
+  const iv = randomBytes(12);
+
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([
+    cipher.update(value, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    SEAL_VERSION,
+    id,
+    iv.toString("base64url"),
+    ciphertext.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+  ].join(".");
+}
+
+/**
+ * Decrypt a value sealed by `seal`.
+ * Returns undefined for tampered, malformed or unknown-key values.
+ */
+export function unseal(sealed: string, context: string): string | undefined {
+  const [version, id, iv, ciphertext, tag] = sealed.split(".");
+  if (version !== SEAL_VERSION || !tag) {
+    return undefined;
+  }
+
+  const encryptionKey = getEncryptionKeys().find((key) => key.id === id);
+  if (!encryptionKey) {
+    return undefined;
+  }
+
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      encryptionKey.key,
+      Buffer.from(iv, "base64url")
+    );
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    return undefined;
+  }
+}
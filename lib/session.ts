@@ -0,0 +1,46 @@
+import "server-only";
+import { randomBytes } from "node:crypto";
+
+import { seal, unseal } from "./seal";
+
+const SESSION_COOKIE = "oauth_session";
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+// Minimal cookie store shapes, satisfied by both `cookies()` and `NextResponse.cookies`
+interface ReadableCookies {
+  get(name: string): { value: string } | undefined;
+}
+
+interface WritableCookies {
+  set(
+    name: string,
+    value: string,
+    options?: {
+      httpOnly?: boolean;
+      secure?: boolean;
+      sameSite?: "lax";
+      maxAge?: number;
+    }
+  ): unknown;
+}
+
+/**
+ * Read the opaque session ID from the sealed session cookie
+ */
+export function getSessionId(cookies: ReadableCookies): string | undefined {
+  const sealed = cookies.get(SESSION_COOKIE)?.value;
+  return sealed ? unseal(sealed, SESSION_COOKIE) : undefined;
+}
+
+export function createSessionId(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export function setSessionCookie(cookies: WritableCookies, sessionId: string) {
+  cookies.set(SESSION_COOKIE, seal(sessionId, SESSION_COOKIE), {
+    httpOnly: true,
+    secure: true,
+    sameSite: "lax",
+    maxAge: SESSION_MAX_AGE,
+  });
+}
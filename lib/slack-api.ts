@@ -0,0 +1,150 @@
+import "server-only";
+import {
+  ErrorCode,
+  WebClient,
+  type WebAPIPlatformError,
+  type WebAPIRateLimitedError,
+} from "@slack/web-api";
+
+import { getApiUrl } from "./oauth-config";
+
+/**
+ * conversations.list
+ * https://api.slack.com/methods/conversations.list
+ */
+export type SlackChannel = {
+  id: string;
+  name: string;
+  is_private: boolean;
+  is_archived: boolean;
+  /** Whether the token's user (or bot) is in the channel */
+  is_member: boolean;
+  num_members?: number;
+  topic?: { value: string };
+  purpose?: { value: string };
+  created: number;
+};
+
+/**
+ * users.list
+ * https://api.slack.com/methods/users.list
+ */
+export type SlackUser = {
+  id: string;
+  team_id: string;
+  name: string;
+  real_name?: string;
+  deleted: boolean;
+  is_bot: boolean;
+  is_admin?: boolean;
+  tz?: string;
+  profile?: { display_name?: string; email?: string; image_72?: string };
+};
+
+export interface SlackPage<T> {
+  data: T;
+  /** Pass as `cursor` to get the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface SlackPageOptions {
+  cursor?: string;
+  /** Slack recommends at most 200 */
+  limit?: number;
+}
+
+/**
+ * A Web API call failed with `ok: false`, or was rate limited
+ */
+export class SlackApiError extends Error {
+  /** Slack's error code, e.g. missing_scope or invalid_auth */
+  error: string;
+  /** The scope the method needs, for missing_scope */
+  needed?: string;
+  /** Seconds to wait before retrying, for rate limited calls */
+  retryAfter?: number;
+
+  constructor(
+    error: string,
+    options: { needed?: string; retryAfter?: number; cause?: unknown } = {}
+  ) {
+    super(`Slack API error: ${error}`, { cause: options.cause });
+    this.name = "SlackApiError";
+    this.error = error;
+    this.needed = options.needed;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Web API client for a bot or user token. Rate limited calls are
+ * rejected instead of retried, so routes can answer 429 right away.
+ */
+export function getSlackClient(token: string): WebClient {
+  return new WebClient(token, {
+    slackApiUrl: getApiUrl("slack", "/"),
+    rejectRateLimitedCalls: true,
+  });
+}
+
+/**
+ * Run a Web API call, normalizing its errors to SlackApiError
+ */
+async function request<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    const { code } = error as { code?: string };
+    if (code === ErrorCode.PlatformError) {
+      const { data } = error as WebAPIPlatformError;
+      throw new SlackApiError(data.error, {
+        needed: (data as { needed?: string }).needed,
+        cause: error,
+      });
+    }
+    if (code === ErrorCode.RateLimitedError) {
+      throw new SlackApiError("ratelimited", {
+        retryAfter: (error as WebAPIRateLimitedError).retryAfter,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Public channels of the workspace, without archived ones
+ */
+export async function listChannels(
+  token: string,
+  { cursor, limit }: SlackPageOptions = {}
+): Promise<SlackPage<SlackChannel[]>> {
+  const response = await request(() =>
+    getSlackClient(token).conversations.list({
+      types: "public_channel",
+      exclude_archived: true,
+      cursor,
+      limit,
+    })
+  );
+  return {
+    data: (response.channels ?? []) as SlackChannel[],
+    nextCursor: response.response_metadata?.next_cursor || undefined,
+  };
+}
+
+/**
+ * Members of the workspace, including bots and deactivated users
+ */
+export async function listUsers(
+  token: string,
+  { cursor, limit }: SlackPageOptions = {}
+): Promise<SlackPage<SlackUser[]>> {
+  const response = await request(() =>
+    getSlackClient(token).users.list({ cursor, limit })
+  );
+  return {
+    data: (response.members ?? []) as SlackUser[],
+    nextCursor: response.response_metadata?.next_cursor || undefined,
+  };
+}
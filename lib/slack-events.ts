@@ -0,0 +1,288 @@
+import "server-only";
+import { isValidSlackRequest } from "@slack/bolt";
+import type { SlackEvent } from "@slack/types";
+import type { WebClient } from "@slack/web-api";
+
+import { getSlackClient } from "./slack-api";
+import {
+  getInstallationStore,
+  getWorkspace,
+  getWorkspaceInstallation,
+  type Installation,
+  type SlackWorkspace,
+} from "./slack-installations";
+
+// MARK: Payloads
+
+/**
+ * Events API delivery wrapping an event
+ * https://api.slack.com/apis/events-api#callback-field
+ */
+export interface SlackEventCallback {
+  type: "event_callback";
+  team_id?: string;
+  enterprise_id?: string;
+  api_app_id: string;
+  event_id: string;
+  event_time: number;
+  event: SlackEvent;
+  authorizations?: {
+    team_id: string | null;
+    enterprise_id: string | null;
+    is_enterprise_install: boolean;
+  }[];
+}
+
+/**
+ * Sent once when the Request URL is configured
+ * https://api.slack.com/events/url_verification
+ */
+export interface SlackUrlVerification {
+  type: "url_verification";
+  challenge: string;
+}
+
+/**
+ * Interactive payload (block_actions, view_submission, shortcut...),
+ * posted as the `payload` form field
+ * https://api.slack.com/reference/interaction-payloads
+ */
+export interface SlackInteraction {
+  type: string;
+  team: { id: string; domain?: string } | null;
+  enterprise?: { id: string; name?: string } | null;
+  is_enterprise_install?: boolean;
+  user: { id: string; name?: string; team_id?: string };
+  [key: string]: unknown;
+}
+
+// MARK: Signatures
+
+/**
+ * Verify X-Slack-Signature, an HMAC of the timestamp and raw body with
+ * the app's signing secret. Bolt also rejects requests older than five
+ * minutes, which may be replays.
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ */
+export function verifySlackSignature(headers: Headers, body: string): boolean {
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+  if (!signingSecret) {
+    throw new Error("SLACK_SIGNING_SECRET is required");
+  }
+
+  return isValidSlackRequest({
+    signingSecret,
+    body,
+    headers: {
+      "x-slack-signature": headers.get("x-slack-signature") ?? "",
+      "x-slack-request-timestamp": Number(
+        headers.get("x-slack-request-timestamp")
+      ),
+    },
+  });
+}
+
+// MARK: Retries
+
+// Slack redelivers an unacknowledged event up to three times within
+// minutes, flagged with X-Slack-Retry-Num. Deliveries are remembered in
+// this process only, and for a bounded time.
+const DELIVERY_TTL_MS = 60 * 60 * 1000;
+const MAX_DELIVERIES = 1000;
+const deliveries = new Map<string, number>();
+
+/**
+ * X-Slack-Retry-Num and X-Slack-Retry-Reason of a redelivery
+ * https://api.slack.com/apis/events-api#retries
+ */
+export interface SlackRetry {
+  num: number;
+  reason: string;
+}
+
+export function getRetry(headers: Headers): SlackRetry | undefined {
+  const num = Number(headers.get("x-slack-retry-num"));
+  if (!Number.isInteger(num) || num < 1) {
+    return undefined;
+  }
+  return { num, reason: headers.get("x-slack-retry-reason") ?? "unknown" };
+}
+
+/**
+ * Record an event delivery. False when it shouldn't be handled: the event
+ * was already delivered to this process, or it's a retry after a timeout.
+ * Handlers run after the acknowledgement, so a timed out delivery was
+ * received, possibly by another instance. Retries for other reasons
+ * (e.g. connection_failed, http_error) are handled, since the earlier
+ * deliveries never made it.
+ */
+export function recordDelivery(eventId: string, retry?: SlackRetry): boolean {
+  const now = Date.now();
+  for (const [id, deliveredAt] of deliveries) {
+    // Maps iterate in insertion order: stop at the first fresh delivery
+    if (
+      deliveredAt + DELIVERY_TTL_MS > now &&
+      deliveries.size < MAX_DELIVERIES
+    ) {
+      break;
+    }
+    deliveries.delete(id);
+  }
+
+  if (deliveries.has(eventId)) {
+    return false;
+  }
+  deliveries.set(eventId, now);
+  return retry?.reason !== "http_timeout";
+}
+
+// MARK: Handlers
+
+export interface SlackHandlerContext {
+  installation: Installation;
+  workspace: SlackWorkspace;
+  /** WebClient with the workspace's bot token */
+  client?: WebClient;
+}
+
+export type SlackEventHandler<T extends SlackEvent["type"]> = (
+  event: Extract<SlackEvent, { type: T }>,
+  context: SlackHandlerContext
+) => void | Promise<void>;
+
+export type SlackInteractionHandler = (
+  payload: SlackInteraction,
+  context: SlackHandlerContext
+) => void | Promise<void>;
+
+// Keyed by `<workspace ID>:<type>`, with "*" matching every workspace
+type AnyHandler = (
+  payload: never,
+  context: SlackHandlerContext
+) => void | Promise<void>;
+const eventHandlers = new Map<string, AnyHandler[]>();
+const interactionHandlers = new Map<string, AnyHandler[]>();
+
+function register(
+  handlers: Map<string, AnyHandler[]>,
+  key: string,
+  handler: AnyHandler
+) {
+  handlers.set(key, [...(handlers.get(key) ?? []), handler]);
+}
+
+/**
+ * Handle an event type for one workspace (team or Enterprise Grid org
+ * ID), or for every installed workspace when omitted
+ */
+export function onSlackEvent<T extends SlackEvent["type"]>(
+  type: T,
+  handler: SlackEventHandler<T>,
+  workspaceId = "*"
+) {
+  register(eventHandlers, `${workspaceId}:${type}`, handler);
+}
+
+/**
+ * Handle an interactive payload type (e.g., block_actions) for one
+ * workspace, or for every installed workspace when omitted
+ */
+export function onSlackInteraction(
+  type: string,
+  handler: SlackInteractionHandler,
+  workspaceId = "*"
+) {
+  register(interactionHandlers, `${workspaceId}:${type}`, handler);
+}
+
+/**
+ * Run the handlers registered for the workspace and for every workspace.
+ * A failing handler is logged and doesn't stop the others.
+ */
+async function dispatch(
+  handlers: Map<string, AnyHandler[]>,
+  type: string,
+  payload: unknown,
+  workspaceId: string | undefined
+) {
+  let installation: Installation | undefined;
+  try {
+    installation = workspaceId
+      ? await getWorkspaceInstallation(workspaceId)
+      : undefined;
+  } catch (error) {
+    // Handlers still run, e.g. to delete an uninstalled app's installation
+    console.error(
+      `Error refreshing the Slack bot token for ${workspaceId}:`,
+      error
+    );
+    installation = await getInstallationStore().getInstallation(workspaceId!);
+  }
+  if (!installation) {
+    console.warn(`Ignoring Slack ${type} for ${workspaceId}: not installed`);
+    return;
+  }
+
+  const workspace = getWorkspace(installation);
+  const context: SlackHandlerContext = {
+    installation,
+    workspace,
+    client: installation.bot && getSlackClient(installation.bot.token),
+  };
+
+  for (const handler of [
+    ...(handlers.get(`${workspace.id}:${type}`) ?? []),
+    ...(handlers.get(`*:${type}`) ?? []),
+  ]) {
+    try {
+      await handler(payload as never, context);
+    } catch (error) {
+      console.error(`Error handling Slack ${type} for ${workspace.id}:`, error);
+    }
+  }
+}
+
+export function dispatchSlackEvent(callback: SlackEventCallback) {
+  // Org-wide installs are keyed by the Enterprise Grid org
+  const workspaceId = callback.authorizations?.[0]?.is_enterprise_install
+    ? callback.enterprise_id
+    : callback.team_id;
+  return dispatch(
+    eventHandlers,
+    callback.event.type,
+    callback.event,
+    workspaceId
+  );
+}
+
+export function dispatchSlackInteraction(payload: SlackInteraction) {
+  const workspaceId = payload.is_enterprise_install
+    ? payload.enterprise?.id
+    : payload.team?.id;
+  return dispatch(interactionHandlers, payload.type, payload, workspaceId);
+}
+
+// MARK: Built-in handlers
+
+async function deleteInstallation({
+  workspace,
+  installation,
+}: SlackHandlerContext) {
+  await getInstallationStore().deleteInstallation({
+    teamId: installation.isEnterpriseInstall ? undefined : workspace.id,
+    enterpriseId: installation.enterprise?.id,
+    isEnterpriseInstall: installation.isEnterpriseInstall ?? false,
+  });
+}
+
+// The app was removed from the workspace; its tokens no longer work
+onSlackEvent("app_uninstalled", (event, context) =>
+  deleteInstallation(context)
+);
+
+onSlackEvent("tokens_revoked", async ({ tokens }, context) => {
+  const botUserId = context.installation.bot?.userId;
+  if (botUserId && tokens.bot?.includes(botUserId)) {
+    await deleteInstallation(context);
+  }
+});
@@ -0,0 +1,302 @@
+import "server-only";
+import { dirname, join } from "node:path";
+import type {
+  Installation,
+  InstallationQuery,
+  InstallationStore,
+} from "@slack/bolt";
+import type { OauthV2AccessResponse } from "@slack/web-api";
+import * as oauth from "oauth4webapi";
+
+import { listConnections } from "./access-token";
+import { OAuthClient } from "./oauth-client";
+import { parseScope } from "./scopes";
+import { seal, unseal } from "./seal";
+import { getSlackClient, SlackApiError } from "./slack-api";
+import { JsonFileStore } from "./token-store/utils";
+
+export type { Installation };
+
+/**
+ * The workspace an installation belongs to: the team, or the Enterprise
+ * Grid org for org-wide installs
+ */
+export interface SlackWorkspace {
+  id: string;
+  name?: string;
+}
+
+export function getWorkspace(installation: Installation): SlackWorkspace {
+  const { id, name } = installation.isEnterpriseInstall
+    ? installation.enterprise!
+    : installation.team!;
+  return { id, name };
+}
+
+function queryWorkspaceId(query: InstallationQuery<boolean>) {
+  return query.isEnterpriseInstall ? query.enterpriseId : query.teamId;
+}
+
+// MARK: Store
+
+type Records = Record<string, string>;
+
+/**
+ * Bolt InstallationStore keeping one installation per workspace.
+ * Installations hold bot tokens, so they're sealed like stored
+ * connections. Kept in memory, or in a JSON file when `path` is set.
+ */
+export class SlackInstallationStore implements InstallationStore {
+  private records: JsonFileStore<Records>;
+
+  constructor(path?: string) {
+    this.records = new JsonFileStore<Records>(path, () => ({}));
+  }
+
+  private key(workspaceId: string) {
+    return `slack-installation:${workspaceId}`;
+  }
+
+  async storeInstallation(installation: Installation): Promise<void> {
+    const key = this.key(getWorkspace(installation).id);
+    await this.records.mutate((records) => {
+      records[key] = seal(JSON.stringify(installation), key);
+    });
+  }
+
+  /**
+   * Installation of a workspace (team or Enterprise Grid org ID), if any
+   */
+  async getInstallation(
+    workspaceId: string
+  ): Promise<Installation | undefined> {
+    const key = this.key(workspaceId);
+    const sealed = (await this.records.read())[key];
+    const value = sealed && unseal(sealed, key);
+    return value ? (JSON.parse(value) as Installation) : undefined;
+  }
+
+  async fetchInstallation(
+    query: InstallationQuery<boolean>
+  ): Promise<Installation> {
+    const workspaceId = queryWorkspaceId(query);
+    const installation =
+      workspaceId && (await this.getInstallation(workspaceId));
+    // Bolt expects a rejection when there's no installation
+    if (!installation) {
+      throw new Error(`No Slack installation for ${workspaceId}`);
+    }
+    return installation;
+  }
+
+  async deleteInstallation(query: InstallationQuery<boolean>): Promise<void> {
+    const workspaceId = queryWorkspaceId(query);
+    if (workspaceId) {
+      await this.records.mutate((records) => {
+        delete records[this.key(workspaceId)];
+      });
+    }
+  }
+}
+
+// Survive module reloads in development
+const globalForInstallations = globalThis as {
+  slackInstallationStore?: SlackInstallationStore;
+};
+
+/**
+ * Get the installation store. Follows TOKEN_STORE: with TOKEN_STORE=file,
+ * installations are persisted next to the token store's file.
+ */
+export function getInstallationStore(): SlackInstallationStore {
+  if (!globalForInstallations.slackInstallationStore) {
+    globalForInstallations.slackInstallationStore = new SlackInstallationStore(
+      process.env.TOKEN_STORE === "file"
+        ? join(
+            dirname(process.env.TOKEN_STORE_PATH ?? ".data/tokens.json"),
+            "slack-installations.json"
+          )
+        : undefined
+    );
+  }
+  return globalForInstallations.slackInstallationStore;
+}
+
+// MARK: oauth.v2.access
+
+/**
+ * Epoch seconds, as Bolt stores token expiry
+ */
+function expiresAt(expiresIn: number | undefined) {
+  return expiresIn === undefined
+    ? undefined
+    : Math.floor(Date.now() / 1000) + expiresIn;
+}
+
+/**
+ * Store the installation from an oauth.v2.access response: the bot token
+ * (for bot scopes), the installing user's token, and the team and
+ * enterprise it was installed on. Returns undefined for a response
+ * without a workspace.
+ * https://api.slack.com/authentication/oauth-v2#exchanging
+ */
+export async function saveInstallation(
+  response: oauth.TokenEndpointResponse
+): Promise<Installation | undefined> {
+  const {
+    access_token,
+    refresh_token,
+    expires_in,
+    scope,
+    bot_user_id,
+    app_id,
+    authed_user,
+    team,
+    enterprise,
+    is_enterprise_install,
+    incoming_webhook,
+  } = response as unknown as OauthV2AccessResponse;
+
+  const workspace = is_enterprise_install ? enterprise : team;
+  if (!workspace?.id || !authed_user?.id) {
+    return undefined;
+  }
+
+  let bot: Installation["bot"];
+  // The top-level token is the bot's when bot scopes were granted
+  if (access_token && bot_user_id) {
+    // The bot ID isn't part of the response
+    const { bot_id } = await getSlackClient(access_token).auth.test();
+    bot = {
+      token: access_token,
+      refreshToken: refresh_token,
+      expiresAt: expiresAt(expires_in),
+      scopes: parseScope(scope),
+      id: bot_id ?? "",
+      userId: bot_user_id,
+    };
+  }
+
+  const installation: Installation<"v2"> = {
+    team:
+      is_enterprise_install || !team?.id ? undefined : { ...team, id: team.id },
+    enterprise: enterprise?.id
+      ? { ...enterprise, id: enterprise.id }
+      : undefined,
+    user: {
+      id: authed_user.id,
+      token: authed_user.access_token,
+      refreshToken: authed_user.refresh_token,
+      expiresAt: expiresAt(authed_user.expires_in),
+      scopes: authed_user.scope ? parseScope(authed_user.scope) : undefined,
+    },
+    bot,
+    incomingWebhook: incoming_webhook?.url
+      ? {
+          url: incoming_webhook.url,
+          channel: incoming_webhook.channel,
+          channelId: incoming_webhook.channel_id,
+          configurationUrl: incoming_webhook.configuration_url,
+        }
+      : undefined,
+    appId: app_id,
+    tokenType: bot ? "bot" : undefined,
+    isEnterpriseInstall: is_enterprise_install ?? false,
+    authVersion: "v2",
+  };
+
+  await getInstallationStore().storeInstallation(installation);
+  return installation;
+}
+
+// MARK: Token rotation
+
+// Refresh slightly early so bot tokens don't expire mid-request
+const EXPIRY_LEEWAY_SECONDS = 60;
+
+// In-flight refreshes keyed by workspace, so a rotated refresh token is
+// only used once within this server process
+const inflightRefreshes = new Map<string, Promise<Installation>>();
+
+/**
+ * Exchange the bot's refresh token for apps with token rotation enabled,
+ * and store the new bot token. Throws SlackApiError("token_expired") when
+ * Slack rejects the refresh, so the app has to be reinstalled.
+ * https://api.slack.com/authentication/rotation
+ */
+async function refreshBotToken(
+  workspaceId: string,
+  installation: Installation
+): Promise<Installation> {
+  const { bot } = installation;
+  let response: oauth.TokenEndpointResponse;
+  try {
+    response = await OAuthClient.refreshAccessToken(
+      "slack",
+      bot!.refreshToken!
+    );
+  } catch (error) {
+    if (error instanceof oauth.ResponseBodyError) {
+      throw new SlackApiError("token_expired", { cause: error });
+    }
+    throw error;
+  }
+
+  const refreshed: Installation = {
+    ...installation,
+    bot: {
+      ...bot!,
+      token: response.access_token,
+      refreshToken: response.refresh_token ?? bot!.refreshToken,
+      expiresAt: expiresAt(response.expires_in),
+    },
+  };
+  await getInstallationStore().storeInstallation(refreshed);
+  return refreshed;
+}
+
+/**
+ * Installation of a workspace with a usable bot token: rotating bot tokens
+ * are refreshed when they're about to expire
+ */
+export async function getWorkspaceInstallation(
+  workspaceId: string
+): Promise<Installation | undefined> {
+  const installation =
+    await getInstallationStore().getInstallation(workspaceId);
+  const bot = installation?.bot;
+  if (
+    !bot?.refreshToken ||
+    bot.expiresAt === undefined ||
+    bot.expiresAt - EXPIRY_LEEWAY_SECONDS > Date.now() / 1000
+  ) {
+    return installation;
+  }
+
+  let refresh = inflightRefreshes.get(workspaceId);
+  if (!refresh) {
+    refresh = refreshBotToken(workspaceId, installation!).finally(() => {
+      inflightRefreshes.delete(workspaceId);
+    });
+    inflightRefreshes.set(workspaceId, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * The installation of a workspace the current session has a Slack
+ * connection to. Undefined when not connected there or not installed.
+ */
+export async function getConnectedInstallation(
+  workspaceId: string
+): Promise<Installation | undefined> {
+  const connections = await listConnections("slack");
+  if (
+    !connections.some(
+      (connection) => connection.profile?.organization?.id === workspaceId
+    )
+  ) {
+    return undefined;
+  }
+  return getWorkspaceInstallation(workspaceId);
+}
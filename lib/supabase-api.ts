@@ -0,0 +1,160 @@
+import "server-only";
+import { isSupabaseError, SupabaseManagementAPI } from "supabase-management-js";
+
+import { getProviderConfig } from "./oauth-config";
+
+/**
+ * GET /v1/organizations
+ * https://supabase.com/docs/reference/api/v1-list-all-organizations
+ */
+export type SupabaseOrganization = {
+  id: string;
+  name: string;
+};
+
+/**
+ * GET /v1/projects
+ * https://supabase.com/docs/reference/api/v1-list-all-projects
+ */
+export type SupabaseProject = {
+  /** The project ref */
+  id: string;
+  organization_id: string;
+  name: string;
+  region: string;
+  created_at: string;
+  /** e.g. ACTIVE_HEALTHY, COMING_UP, INACTIVE */
+  status?: string;
+  database?: { host: string; version: string };
+};
+
+/**
+ * GET /v1/projects/{ref}/api-keys
+ */
+export type SupabaseApiKey = {
+  name: string;
+  api_key: string;
+};
+
+/**
+ * GET /v1/projects/{ref}/branches
+ * https://supabase.com/docs/reference/api/v1-list-all-branches
+ */
+export type SupabaseBranch = {
+  id: string;
+  name: string;
+  project_ref: string;
+  parent_project_ref: string;
+  is_default: boolean;
+  git_branch?: string;
+  status?: string;
+  created_at: string;
+  updated_at: string;
+};
+
+/**
+ * The Management API failed the request
+ */
+export class SupabaseApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "SupabaseApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * Project and branch statuses for display, e.g. ACTIVE_HEALTHY -> Active healthy
+ */
+export function formatSupabaseStatus(status: string): string {
+  const text = status.toLowerCase().replaceAll("_", " ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Management API client for the user's Supabase token.
+ * The base URL can be overridden with SUPABASE_API_URL.
+ */
+function getManagementClient(accessToken: string) {
+  const { apiBaseUrl } = getProviderConfig("supabase");
+  return new SupabaseManagementAPI({ accessToken, baseUrl: apiBaseUrl });
+}
+
+/**
+ * Run a Management API call, normalizing its errors to SupabaseApiError
+ */
+async function request<T>(call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    if (isSupabaseError(error)) {
+      throw new SupabaseApiError(error.message, error.response.status, {
+        cause: error,
+      });
+    }
+    throw error;
+  }
+}
+
+export async function listOrganizations(
+  accessToken: string
+): Promise<SupabaseOrganization[]> {
+  const organizations = await request(() =>
+    getManagementClient(accessToken).getOrganizations()
+  );
+  return organizations ?? [];
+}
+
+export async function listProjects(
+  accessToken: string,
+  organizationId?: string
+): Promise<SupabaseProject[]> {
+  // The generated types predate the `status` field
+  const projects = ((await request(() =>
+    getManagementClient(accessToken).getProjects()
+  )) ?? []) as SupabaseProject[];
+
+  return organizationId
+    ? projects.filter((project) => project.organization_id === organizationId)
+    : projects;
+}
+
+export async function getProjectApiKeys(
+  accessToken: string,
+  ref: string
+): Promise<SupabaseApiKey[]> {
+  const apiKeys = await request(() =>
+    getManagementClient(accessToken).getProjectApiKeys(ref)
+  );
+  return apiKeys ?? [];
+}
+
+/**
+ * Database branches of a project.
+ * supabase-management-js has no wrapper for this endpoint yet.
+ */
+export function listBranches(
+  accessToken: string,
+  ref: string
+): Promise<SupabaseBranch[]> {
+  return request(async () => {
+    const { data, error, response } = await getManagementClient(
+      accessToken
+    ).client.get("/v1/projects/{ref}/branches", {
+      params: { path: { ref } },
+    });
+
+    if (!response.ok || !data) {
+      const message =
+        (error as { message?: string } | undefined)?.message ??
+        response.statusText;
+      throw new SupabaseApiError(
+        `Failed to list branches: ${message} (${response.status})`,
+        response.status
+      );
+    }
+    return data;
+  });
+}
@@ -0,0 +1,165 @@
+import type { Provider } from "../oauth-config";
+import { seal, unseal } from "../seal";
+import type {
+  AccountProfile,
+  ConnectionTokens,
+  ConnectionUpdate,
+  StoredConnection,
+  TokenStore,
+} from "./types";
+import {
+  applyTokenUpdate,
+  connectionKey,
+  connectionKeyPrefix,
+  createConnection,
+  findDefault,
+  JsonFileStore,
+} from "./utils";
+
+type Records = Record<string, string>;
+
+/**
+ * TokenStore persisted to a JSON file. Each connection is sealed at rest,
+ * bound to its session ID, provider and account.
+ * Suitable for a single server instance; writes are serialized in-process.
+ */
+export class FileTokenStore implements TokenStore {
+  private records: JsonFileStore<Records>;
+
+  constructor(path: string) {
+    this.records = new JsonFileStore<Records>(path, () => ({}));
+  }
+
+  private decode(records: Records, key: string) {
+    const sealed = records[key];
+    const value = sealed && unseal(sealed, key);
+    return value ? (JSON.parse(value) as StoredConnection) : undefined;
+  }
+
+  private encode(records: Records, connection: StoredConnection, key: string) {
+    records[key] = seal(JSON.stringify(connection), key);
+  }
+
+  private decodeAll(
+    records: Records,
+    sessionId: string,
+    provider?: Provider
+  ): StoredConnection[] {
+    const prefix = connectionKeyPrefix(sessionId, provider);
+
+    return Object.keys(records)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => this.decode(records, key))
+      .filter((connection) => connection !== undefined);
+  }
+
+  async save(
+    sessionId: string,
+    provider: Provider,
+    accountId: string,
+    tokens: ConnectionTokens & { profile?: AccountProfile }
+  ): Promise<StoredConnection> {
+    return this.records.mutate((records) => {
+      const connection = createConnection(
+        provider,
+        accountId,
+        tokens,
+        this.decodeAll(records, sessionId, provider)
+      );
+      this.encode(
+        records,
+        connection,
+        connectionKey(sessionId, provider, accountId)
+      );
+      return connection;
+    });
+  }
+
+  async get(
+    sessionId: string,
+    provider: Provider,
+    accountId?: string
+  ): Promise<StoredConnection | undefined> {
+    const records = await this.records.read();
+
+    if (accountId === undefined) {
+      return findDefault(this.decodeAll(records, sessionId, provider));
+    }
+    return this.decode(records, connectionKey(sessionId, provider, accountId));
+  }
+
+  async list(
+    sessionId: string,
+    provider?: Provider
+  ): Promise<StoredConnection[]> {
+    return this.decodeAll(await this.records.read(), sessionId, provider);
+  }
+
+  async update(
+    sessionId: string,
+    provider: Provider,
+    accountId: string,
+    update: ConnectionUpdate
+  ): Promise<StoredConnection | undefined> {
+    const key = connectionKey(sessionId, provider, accountId);
+
+    return this.records.mutate((records) => {
+      const existing = this.decode(records, key);
+      if (!existing) {
+        return undefined;
+      }
+
+      const connection = applyTokenUpdate(existing, update);
+      this.encode(records, connection, key);
+      return connection;
+    });
+  }
+
+  async setDefault(
+    sessionId: string,
+    provider: Provider,
+    accountId: string
+  ): Promise<StoredConnection | undefined> {
+    return this.records.mutate((records) => {
+      const connections = this.decodeAll(records, sessionId, provider);
+      const target = connections.find((c) => c.accountId === accountId);
+      if (!target) {
+        return undefined;
+      }
+
+      for (const connection of connections) {
+        connection.isDefault = connection === target;
+        this.encode(
+          records,
+          connection,
+          connectionKey(sessionId, provider, connection.accountId)
+        );
+      }
+      return target;
+    });
+  }
+
+  async delete(
+    sessionId: string,
+    provider: Provider,
+    accountId: string
+  ): Promise<void> {
+    await this.records.mutate((records) => {
+      const key = connectionKey(sessionId, provider, accountId);
+      const removed = this.decode(records, key);
+      delete records[key];
+
+      if (removed?.isDefault) {
+        const next = findDefault(this.decodeAll(records, sessionId, provider));
+        if (next) {
+          next.isDefault = true;
+          this.encode(
+            records,
+            next,
+            connectionKey(sessionId, provider, next.accountId)
+          );
+        }
+      }
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import "server-only";
+
+import { FileTokenStore } from "./file";
+import { MemoryTokenStore } from "./memory";
+import type { TokenStore } from "./types";
+
+export type {
+  ConnectionTokens,
+  ConnectionUpdate,
+  StoredConnection,
+  TokenStore,
+} from "./types";
+
+// Survive module reloads in development
+const globalForTokenStore = globalThis as { tokenStore?: TokenStore };
+
+/**
+ * Get the configured TokenStore.
+ * TOKEN_STORE=memory (default) or TOKEN_STORE=file, persisted at
+ * TOKEN_STORE_PATH (default .data/tokens.json).
+ */
+export function getTokenStore(): TokenStore {
+  if (!globalForTokenStore.tokenStore) {
+    switch (process.env.TOKEN_STORE ?? "memory") {
+      case "memory":
+        globalForTokenStore.tokenStore = new MemoryTokenStore();
+        break;
+      case "file":
+        globalForTokenStore.tokenStore = new FileTokenStore(
+          process.env.TOKEN_STORE_PATH ?? ".data/tokens.json"
+        );
+        break;
+      default:
+        throw new Error(`Unsupported TOKEN_STORE: ${process.env.TOKEN_STORE}`);
+    }
+  }
+  return globalForTokenStore.tokenStore;
+}
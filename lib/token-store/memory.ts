@@ -0,0 +1,113 @@
+import type { Provider } from "../oauth-config";
+import type {
+  AccountProfile,
+  ConnectionTokens,
+  ConnectionUpdate,
+  StoredConnection,
+  TokenStore,
+} from "./types";
+import {
+  applyTokenUpdate,
+  connectionKey,
+  connectionKeyPrefix,
+  createConnection,
+  findDefault,
+} from "./utils";
+
+/**
+ * In-process TokenStore. Connections are lost on restart and
+ * aren't shared between server instances.
+ */
+export class MemoryTokenStore implements TokenStore {
+  private connections = new Map<string, StoredConnection>();
+
+  async save(
+    sessionId: string,
+    provider: Provider,
+    accountId: string,
+    tokens: ConnectionTokens & { profile?: AccountProfile }
+  ): Promise<StoredConnection> {
+    const connection = createConnection(
+      provider,
+      accountId,
+      tokens,
+      await this.list(sessionId, provider)
+    );
+    this.connections.set(
+      connectionKey(sessionId, provider, accountId),
+      connection
+    );
+    return connection;
+  }
+
+  async get(
+    sessionId: string,
+    provider: Provider,
+    accountId?: string
+  ): Promise<StoredConnection | undefined> {
+    if (accountId === undefined) {
+      return findDefault(await this.list(sessionId, provider));
+    }
+    return this.connections.get(connectionKey(sessionId, provider, accountId));
+  }
+
+  async list(
+    sessionId: string,
+    provider?: Provider
+  ): Promise<StoredConnection[]> {
+    const prefix = connectionKeyPrefix(sessionId, provider);
+
+    return [...this.connections.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, connection]) => connection);
+  }
+
+  async update(
+    sessionId: string,
+    provider: Provider,
+    accountId: string,
+    update: ConnectionUpdate
+  ): Promise<StoredConnection | undefined> {
+    const key = connectionKey(sessionId, provider, accountId);
+    const existing = this.connections.get(key);
+    if (!existing) {
+      return undefined;
+    }
+
+    const connection = applyTokenUpdate(existing, update);
+    this.connections.set(key, connection);
+    return connection;
+  }
+
+  async setDefault(
+    sessionId: string,
+    provider: Provider,
+    accountId: string
+  ): Promise<StoredConnection | undefined> {
+    if (!this.connections.has(connectionKey(sessionId, provider, accountId))) {
+      return undefined;
+    }
+
+    for (const connection of await this.list(sessionId, provider)) {
+      connection.isDefault = connection.accountId === accountId;
+    }
+    return this.connections.get(connectionKey(sessionId, provider, accountId));
+  }
+
+  async delete(
+    sessionId: string,
+    provider: Provider,
+    accountId: string
+  ): Promise<void> {
+    const key = connectionKey(sessionId, provider, accountId);
+    const removed = this.connections.get(key);
+    this.connections.delete(key);
+
+    if (removed?.isDefault) {
+      const next = findDefault(await this.list(sessionId, provider));
+      if (next) {
+        next.isDefault = true;
+      }
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import type * as oauth from "oauth4webapi";
+import type { Provider } from "../oauth-config";
+
+/**
+ * Credentials for a single provider connection
+ */
+export interface ConnectionTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idTokenClaims?: oauth.IDToken;
+  /** Epoch milliseconds, derived from expires_in at issuance */
+  expiresAt?: number;
+  /** Epoch milliseconds the access token was issued */
+  issuedAt?: number;
+  /** Space-delimited scopes granted, when the token response reports them */
+  scope?: string;
+}
+
+/**
+ * Outcome of the latest token validation (/token-info)
+ */
+export interface TokenValidation {
+  valid: boolean;
+  /** Epoch milliseconds */
+  checkedAt: number;
+}
+
+/**
+ * Display details of the connected account, captured at connection time
+ */
+export interface AccountProfile {
+  name?: string;
+  username?: string;
+  email?: string;
+  avatar_url?: string;
+  /** Organization, team or workspace the account belongs to */
+  organization?: { id: string; name?: string };
+}
+
+/**
+ * Fields that can change after a connection is saved
+ */
+export interface ConnectionUpdate extends Partial<ConnectionTokens> {
+  profile?: AccountProfile;
+  /**
+   * Set when the refresh token was rejected (e.g. reused after rotation).
+   * The user has to connect again; saving a new connection clears it.
+   */
+  reauthorizationRequired?: boolean;
+  lastValidation?: TokenValidation;
+}
+
+/**
+ * A connection as persisted by a TokenStore
+ */
+export interface StoredConnection extends ConnectionTokens {
+  provider: Provider;
+  /** The provider's user ID (UserInfo.id) */
+  accountId: string;
+  profile?: AccountProfile;
+  /** The account used when no account is specified */
+  isDefault: boolean;
+  reauthorizationRequired?: boolean;
+  lastValidation?: TokenValidation;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Server-side storage for provider credentials, keyed by session ID,
+ * provider and account. The browser only ever sees the opaque session ID.
+ */
+export interface TokenStore {
+  /**
+   * Store a connection, replacing an existing one for the same account.
+   * The first account connected for a provider becomes its default.
+   */
+  save(
+    sessionId: string,
+    provider: Provider,
+    accountId: string,
+    tokens: ConnectionTokens & { profile?: AccountProfile }
+  ): Promise<StoredConnection>;
+  /** Get an account's connection, or the provider's default account */
+  get(
+    sessionId: string,
+    provider: Provider,
+    accountId?: string
+  ): Promise<StoredConnection | undefined>;
+  /** List every connection for a session, optionally for one provider */
+  list(sessionId: string, provider?: Provider): Promise<StoredConnection[]>;
+  /** Apply refreshed tokens. Returns undefined if there's no connection. */
+  update(
+    sessionId: string,
+    provider: Provider,
+    accountId: string,
+    update: ConnectionUpdate
+  ): Promise<StoredConnection | undefined>;
+  /** Make an account the provider's default. Returns undefined if there's no connection. */
+  setDefault(
+    sessionId: string,
+    provider: Provider,
+    accountId: string
+  ): Promise<StoredConnection | undefined>;
+  /** Remove an account. If it was the default, the oldest remaining account takes over. */
+  delete(
+    sessionId: string,
+    provider: Provider,
+    accountId: string
+  ): Promise<void>;
+}
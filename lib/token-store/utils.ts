@@ -0,0 +1,135 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { Provider } from "../oauth-config";
+import type {
+  AccountProfile,
+  ConnectionTokens,
+  ConnectionUpdate,
+  StoredConnection,
+} from "./types";
+
+export function connectionKey(
+  sessionId: string,
+  provider: Provider,
+  accountId: string
+) {
+  return `${sessionId}:${provider}:${accountId}`;
+}
+
+/**
+ * Key prefix matching every connection of a session, or of one of its providers
+ */
+export function connectionKeyPrefix(sessionId: string, provider?: Provider) {
+  return provider ? `${sessionId}:${provider}:` : `${sessionId}:`;
+}
+
+/**
+ * Build a new connection. It becomes the default unless another account
+ * of the same provider already is.
+ */
+export function createConnection(
+  provider: Provider,
+  accountId: string,
+  tokens: ConnectionTokens & { profile?: AccountProfile },
+  existing: StoredConnection[]
+): StoredConnection {
+  const now = Date.now();
+  const previous = existing.find((c) => c.accountId === accountId);
+  const others = existing.filter((c) => c.accountId !== accountId);
+
+  return {
+    ...tokens,
+    provider,
+    accountId,
+    isDefault: previous?.isDefault ?? !others.some((c) => c.isDefault),
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * The flagged default, falling back to the oldest connection
+ */
+export function findDefault(
+  connections: StoredConnection[]
+): StoredConnection | undefined {
+  return (
+    connections.find((c) => c.isDefault) ??
+    [...connections].sort((a, b) => a.createdAt - b.createdAt)[0]
+  );
+}
+
+/**
+ * Merge refreshed tokens into a connection.
+ * Undefined values are skipped, so a refresh response without a new
+ * refresh_token keeps the existing one.
+ */
+export function applyTokenUpdate(
+  connection: StoredConnection,
+  update: ConnectionUpdate
+): StoredConnection {
+  const defined = Object.fromEntries(
+    Object.entries(update).filter(([, value]) => value !== undefined)
+  );
+
+  return { ...connection, ...defined, updatedAt: Date.now() };
+}
+
+/**
+ * Records kept in a JSON file, or in memory when there is no `path`.
+ * Files are replaced atomically and read-modify-write cycles are
+ * serialized in-process, so this suits a single server instance.
+ */
+export class JsonFileStore<T> {
+  private path?: string;
+  private empty: () => T;
+  private records: T;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string | undefined, empty: () => T) {
+    this.path = path;
+    this.empty = empty;
+    this.records = empty();
+  }
+
+  async read(): Promise<T> {
+    if (!this.path) {
+      return this.records;
+    }
+    try {
+      return JSON.parse(await readFile(this.path, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return this.empty();
+      }
+      throw error;
+    }
+  }
+
+  private async write(records: T) {
+    if (!this.path) {
+      this.records = records;
+      return;
+    }
+    await mkdir(dirname(this.path), { recursive: true });
+    // Write then rename so readers never see a partial file
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify(records), { mode: 0o600 });
+    await rename(tmp, this.path);
+  }
+
+  /**
+   * Run a read-modify-write cycle after any pending one
+   */
+  mutate<R>(fn: (records: T) => R | Promise<R>): Promise<R> {
+    const result = this.pending.then(async () => {
+      const records = await this.read();
+      const value = await fn(records);
+      await this.write(records);
+      return value;
+    });
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+}
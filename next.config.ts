@@ -1,13 +1,13 @@
 import type { NextConfig } from "next";
 
+import { AVATAR_HOSTS } from "./lib/image-hosts";
+
 const nextConfig: NextConfig = {
   images: {
-    remotePatterns: [
-      {
-        protocol: "https",
-        hostname: "avatars.githubusercontent.com",
-      },
-    ],
+    remotePatterns: AVATAR_HOSTS.map((hostname) => ({
+      protocol: "https" as const,
+      hostname,
+    })),
   },
 };
 
@@ -0,0 +1,1548 @@
+/**
+ * Local mock OAuth 2.0 / OpenID Connect authorization server.
+ *
+ * Serves every registered provider under its own issuer path
+ * (http://localhost:4010/{provider}) and emulates the provider's quirks
+ * from its definition in lib/providers, so the authorize → callback →
+ * userinfo → refresh → disconnect flow can run without real credentials.
+ *
+ * Usage: npm run mock-oauth, then copy the printed env into .env.local
+ */
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  randomUUID,
+  sign,
+  timingSafeEqual,
+  verify,
+} from "node:crypto";
+
+import {
+  getProviderDefinition,
+  isValidProvider,
+  Provider,
+  VALID_PROVIDERS,
+} from "../lib/oauth-config";
+import type { ProviderDefinition } from "../lib/providers/types";
+
+const PORT = Number(process.env.MOCK_OAUTH_PORT) || 4010;
+const ORIGIN = `http://localhost:${PORT}`;
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+
+/** Lifetime of issued access tokens; keep it short to exercise refresh */
+const ACCESS_TOKEN_TTL_SECONDS =
+  Number(process.env.MOCK_OAUTH_ACCESS_TOKEN_TTL_SECONDS) || 300;
+
+/** Skip the consent page and sign in as the first mock user */
+const AUTO_APPROVE = process.env.MOCK_OAUTH_AUTO_APPROVE === "true";
+
+// MARK: Behavior
+
+/**
+ * Token endpoint behavior that isn't captured by the provider definitions
+ */
+interface MockBehavior {
+  /** Issue refresh tokens and expiring access tokens */
+  refreshTokens: boolean;
+  /** Rotate refresh tokens on use; reusing a rotated one fails with invalid_grant */
+  rotateRefreshTokens: boolean;
+  /** Serve the provider's own REST API under /{provider}/api */
+  api?: "github" | "slack" | "facebook" | "supabase";
+  /** Serve an RFC 7662 introspection endpoint */
+  introspection?: boolean;
+  /**
+   * Answer like Slack's oauth.v2.access: a bot token for the workspace,
+   * plus the user's token for `user_scope` under `authed_user`
+   */
+  workspaceInstall?: boolean;
+  /**
+   * Serve GitHub App endpoints: installations accessible to the user and
+   * installation access tokens minted with the app's JWT
+   */
+  githubApp?: boolean;
+}
+
+/**
+ * Providers whose definition fetches the profile from their own API
+ * don't get a /userinfo endpoint
+ */
+function servesUserInfo(provider: Provider): boolean {
+  return !getProviderDefinition(provider).fetchProfile;
+}
+
+const BEHAVIOR: Record<Provider, MockBehavior> = {
+  supabase: {
+    refreshTokens: true,
+    rotateRefreshTokens: true,
+    introspection: true,
+    api: "supabase",
+  },
+  // OAuth App tokens don't expire and come without a refresh token
+  github: { refreshTokens: false, rotateRefreshTokens: false, api: "github" },
+  // GitHub App user tokens expire and come with rotating refresh tokens
+  "github-app": {
+    refreshTokens: true,
+    rotateRefreshTokens: true,
+    api: "github",
+    githubApp: true,
+  },
+  clerk: {
+    refreshTokens: true,
+    rotateRefreshTokens: true,
+    introspection: true,
+  },
+  google: { refreshTokens: true, rotateRefreshTokens: false },
+  slack: {
+    refreshTokens: false,
+    rotateRefreshTokens: false,
+    api: "slack",
+    workspaceInstall: true,
+  },
+  facebook: {
+    refreshTokens: false,
+    rotateRefreshTokens: false,
+    api: "facebook",
+  },
+};
+
+// MARK: Users
+
+interface MockUser {
+  id: string;
+  login: string;
+  name: string;
+  email: string;
+  picture: string;
+}
+
+const USERS: MockUser[] = [
+  {
+    id: "1001",
+    login: "ada",
+    name: "Ada Lovelace",
+    email: "ada@example.com",
+    picture: `${ORIGIN}/avatars/ada.png`,
+  },
+  {
+    id: "1002",
+    login: "grace",
+    name: "Grace Hopper",
+    email: "grace@example.com",
+    picture: `${ORIGIN}/avatars/grace.png`,
+  },
+];
+
+// MARK: State
+
+interface AuthorizationCode {
+  provider: Provider;
+  user: MockUser;
+  redirectUri: string;
+  scope?: string;
+  /** Slack's user_scope */
+  userScope?: string;
+  nonce?: string;
+  codeChallenge?: string;
+  expiresAt: number;
+}
+
+interface IssuedToken {
+  provider: Provider;
+  user: MockUser;
+  scope?: string;
+  expiresAt?: number;
+  /** A workspace bot token rather than the user's own */
+  bot?: boolean;
+  /** A GitHub App installation token rather than the user's own */
+  installationId?: number;
+}
+
+const codes = new Map<string, AuthorizationCode>();
+const accessTokens = new Map<string, IssuedToken>();
+const refreshTokens = new Map<string, IssuedToken & { rotated?: boolean }>();
+
+// MARK: Signing keys
+
+const KEY_ID = randomUUID();
+const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+  modulusLength: 2048,
+});
+const JWKS = {
+  keys: [
+    {
+      ...publicKey.export({ format: "jwk" }),
+      kid: KEY_ID,
+      alg: "RS256",
+      use: "sig",
+    },
+  ],
+};
+
+function signJWT(claims: Record<string, unknown>): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const input = `${encode({ alg: "RS256", typ: "JWT", kid: KEY_ID })}.${encode(claims)}`;
+  const signature = sign("sha256", Buffer.from(input), privateKey);
+  return `${input}.${signature.toString("base64url")}`;
+}
+
+// MARK: Helpers
+
+function issuer(provider: Provider): string {
+  return `${ORIGIN}/${provider}`;
+}
+
+function credentials(definition: ProviderDefinition, provider: Provider) {
+  return {
+    clientId:
+      process.env[`${definition.envPrefix}_CLIENT_ID`] ||
+      `mock-${provider}-client`,
+    clientSecret:
+      process.env[`${definition.envPrefix}_CLIENT_SECRET`] ||
+      `mock-${provider}-secret`,
+  };
+}
+
+function redirectUri(provider: Provider): string {
+  return `${APP_URL}/api/oauth/${provider}/callback`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function sendJSON(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(
+  res: ServerResponse,
+  status: number,
+  error: string,
+  description: string
+) {
+  sendJSON(res, status, { error, error_description: description });
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  return new URLSearchParams(await readBody(req));
+}
+
+/**
+ * An issued access token that hasn't expired or been revoked
+ */
+function activeToken(token: string): IssuedToken | undefined {
+  const issued = accessTokens.get(token);
+  if (!issued || (issued.expiresAt && issued.expiresAt < Date.now())) {
+    return undefined;
+  }
+  return issued;
+}
+
+function bearerToken(req: IncomingMessage): IssuedToken | undefined {
+  const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+  if (scheme?.toLowerCase() !== "bearer" || !token) {
+    return undefined;
+  }
+  return activeToken(token);
+}
+
+/**
+ * Authenticate the client as the provider would.
+ * Providers with the plainBasicAuth quirk expect `base64(id:secret)`
+ * without the RFC 6749 Section 2.3.1 form-encoding of each part.
+ */
+function authenticateClient(
+  provider: Provider,
+  req: IncomingMessage,
+  form: URLSearchParams
+): string | undefined {
+  const definition = getProviderDefinition(provider);
+  const expected = credentials(definition, provider);
+  let clientId: string | undefined;
+  let clientSecret: string | undefined;
+
+  if (definition.tokenEndpointAuthMethod === "client_secret_basic") {
+    const [scheme, value] = (req.headers.authorization ?? "").split(" ");
+    if (scheme?.toLowerCase() !== "basic" || !value) {
+      return "client_secret_basic authentication is required";
+    }
+    const decoded = Buffer.from(value, "base64").toString("utf8");
+    const separator = decoded.indexOf(":");
+    clientId = decoded.slice(0, separator);
+    clientSecret = decoded.slice(separator + 1);
+    if (!definition.quirks?.plainBasicAuth) {
+      const formDecode = (part: string) =>
+        decodeURIComponent(part.replace(/\+/g, " "));
+      clientId = formDecode(clientId);
+      clientSecret = formDecode(clientSecret);
+    }
+  } else {
+    clientId = form.get("client_id") ?? undefined;
+    clientSecret = form.get("client_secret") ?? undefined;
+  }
+
+  if (
+    !clientId ||
+    !clientSecret ||
+    !safeEqual(clientId, expected.clientId) ||
+    !safeEqual(clientSecret, expected.clientSecret)
+  ) {
+    return "invalid client credentials";
+  }
+  return undefined;
+}
+
+function issueTokens(
+  provider: Provider,
+  user: MockUser,
+  scope: string | undefined,
+  options: { nonce?: string; refreshToken: boolean }
+) {
+  const definition = getProviderDefinition(provider);
+  const behavior = BEHAVIOR[provider];
+  const accessToken = `mock_at_${randomBytes(24).toString("base64url")}`;
+  const expiresIn = behavior.refreshTokens
+    ? ACCESS_TOKEN_TTL_SECONDS
+    : undefined;
+
+  accessTokens.set(accessToken, {
+    provider,
+    user,
+    scope,
+    expiresAt: expiresIn ? Date.now() + expiresIn * 1000 : undefined,
+  });
+
+  const body: Record<string, unknown> = {
+    access_token: accessToken,
+    token_type: "bearer",
+    scope,
+    expires_in: expiresIn,
+  };
+
+  if (options.refreshToken) {
+    const refreshToken = `mock_rt_${randomBytes(24).toString("base64url")}`;
+    refreshTokens.set(refreshToken, { provider, user, scope });
+    body.refresh_token = refreshToken;
+  }
+
+  if (definition.oidc) {
+    const now = Math.floor(Date.now() / 1000);
+    body.id_token = signJWT({
+      iss: issuer(provider),
+      aud: credentials(definition, provider).clientId,
+      sub: user.id,
+      iat: now,
+      exp: now + ACCESS_TOKEN_TTL_SECONDS,
+      nonce: options.nonce,
+      ...profileClaims(user),
+    });
+  }
+
+  return body;
+}
+
+const SLACK_TEAM = { id: "T0MOCK", name: "Mock Workspace" };
+const SLACK_BOT = { id: "B0MOCK", userId: "U0MOCKBOT", name: "mockbot" };
+
+/**
+ * oauth.v2.access response for an app install: the bot token at the top
+ * level, and the installing user's token when user scopes were requested
+ * https://api.slack.com/methods/oauth.v2.access
+ */
+function issueInstallation(
+  provider: Provider,
+  user: MockUser,
+  scope: string | undefined,
+  userScope: string | undefined
+) {
+  const botToken = `mock_at_${randomBytes(24).toString("base64url")}`;
+  accessTokens.set(botToken, { provider, user, scope, bot: true });
+
+  let authedUser: Record<string, unknown> = { id: `U${user.id}` };
+  if (userScope) {
+    const userToken = `mock_at_${randomBytes(24).toString("base64url")}`;
+    accessTokens.set(userToken, { provider, user, scope: userScope });
+    authedUser = {
+      ...authedUser,
+      scope: userScope,
+      access_token: userToken,
+      token_type: "user",
+    };
+  }
+
+  return {
+    access_token: botToken,
+    token_type: "bot",
+    scope,
+    bot_user_id: SLACK_BOT.userId,
+    app_id: "A0MOCK",
+    team: SLACK_TEAM,
+    enterprise: null,
+    is_enterprise_install: false,
+    authed_user: authedUser,
+  };
+}
+
+function profileClaims(user: MockUser) {
+  return {
+    email: user.email,
+    email_verified: true,
+    name: user.name,
+    preferred_username: user.login,
+    picture: user.picture,
+  };
+}
+
+// MARK: Endpoints
+
+function metadata(provider: Provider) {
+  const definition = getProviderDefinition(provider);
+  const base = issuer(provider);
+
+  return {
+    issuer: base,
+    authorization_endpoint: `${base}/authorize`,
+    token_endpoint: `${base}/token`,
+    revocation_endpoint: `${base}/revoke`,
+    ...(BEHAVIOR[provider].introspection
+      ? { introspection_endpoint: `${base}/introspect` }
+      : {}),
+    ...(servesUserInfo(provider)
+      ? { userinfo_endpoint: `${base}/userinfo` }
+      : {}),
+    ...(definition.oidc
+      ? {
+          jwks_uri: `${base}/jwks`,
+          id_token_signing_alg_values_supported: ["RS256"],
+          subject_types_supported: ["public"],
+        }
+      : {}),
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code", "refresh_token"],
+    code_challenge_methods_supported: ["S256"],
+    token_endpoint_auth_methods_supported: [definition.tokenEndpointAuthMethod],
+  };
+}
+
+function handleAuthorize(
+  provider: Provider,
+  url: URL,
+  res: ServerResponse
+): void {
+  const definition = getProviderDefinition(provider);
+  const params = url.searchParams;
+  const redirect = params.get("redirect_uri");
+
+  // Never redirect to an unregistered URI
+  if (
+    params.get("client_id") !== credentials(definition, provider).clientId ||
+    redirect !== redirectUri(provider)
+  ) {
+    sendError(res, 400, "invalid_request", "unknown client or redirect_uri");
+    return;
+  }
+
+  const respond = (query: Record<string, string>) => {
+    const target = new URL(redirect);
+    for (const [key, value] of Object.entries(query)) {
+      target.searchParams.set(key, value);
+    }
+    if (params.get("state")) {
+      target.searchParams.set("state", params.get("state")!);
+    }
+    // RFC 9207 issuer identification
+    target.searchParams.set("iss", issuer(provider));
+    res.writeHead(302, { Location: target.href });
+    res.end();
+  };
+
+  if (params.get("response_type") !== "code") {
+    respond({ error: "unsupported_response_type" });
+    return;
+  }
+  if (
+    definition.usePKCE &&
+    (!params.get("code_challenge") ||
+      params.get("code_challenge_method") !== "S256")
+  ) {
+    respond({
+      error: "invalid_request",
+      error_description: "PKCE with S256 is required",
+    });
+    return;
+  }
+
+  const decision = params.get("mock_decision");
+  const user =
+    USERS.find(({ id }) => id === decision) ??
+    (AUTO_APPROVE && !decision ? USERS[0] : undefined);
+
+  if (decision === "deny") {
+    respond({
+      error: "access_denied",
+      error_description: "The user denied the request",
+    });
+    return;
+  }
+
+  if (!user) {
+    // Consent page: each choice re-submits the request with mock_decision
+    const choice = (value: string, label: string) => {
+      const target = new URL(url);
+      target.searchParams.set("mock_decision", value);
+      return `<li><a href="${target.href.replace(/&/g, "&amp;")}">${label}</a></li>`;
+    };
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(
+      `<!doctype html><title>Mock ${provider} sign-in</title>` +
+        `<h1>Sign in to mock ${provider}</h1>` +
+        `<p>Requested scope: ${params.get("scope") ?? "(none)"}</p><ul>` +
+        USERS.map((u) => choice(u.id, `Continue as ${u.name}`)).join("") +
+        choice("deny", "Deny") +
+        "</ul>"
+    );
+    return;
+  }
+
+  const code = randomBytes(24).toString("base64url");
+  codes.set(code, {
+    provider,
+    user,
+    redirectUri: redirect,
+    scope: params.get("scope") ?? undefined,
+    userScope: params.get("user_scope") ?? undefined,
+    nonce: params.get("nonce") ?? undefined,
+    codeChallenge: params.get("code_challenge") ?? undefined,
+    expiresAt: Date.now() + 60_000,
+  });
+  respond({ code });
+}
+
+async function handleToken(
+  provider: Provider,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const { quirks = {} } = getProviderDefinition(provider);
+  const form = await readForm(req);
+
+  // Some providers (e.g., Supabase) answer with 201 instead of 200
+  const status = quirks.tokenResponseStatus201 ? 201 : 200;
+  const succeed = (body: Record<string, unknown>) =>
+    sendJSON(res, status, quirks.okEnvelope ? { ok: true, ...body } : body);
+
+  // Others (e.g., GitHub, Slack) report errors with a 200 status
+  const fail = (errorStatus: number, error: string, description: string) => {
+    if (quirks.okEnvelope) {
+      sendJSON(res, 200, { ok: false, error });
+    } else if (quirks.errorResponseStatus200) {
+      sendError(res, 200, error, description);
+    } else {
+      sendError(res, errorStatus, error, description);
+    }
+  };
+
+  const clientError = authenticateClient(provider, req, form);
+  if (clientError) {
+    fail(401, "invalid_client", clientError);
+    return;
+  }
+
+  const grantType = form.get("grant_type");
+
+  if (grantType === "authorization_code") {
+    const code = form.get("code") ?? "";
+    const grant = codes.get(code);
+    codes.delete(code);
+
+    if (
+      !grant ||
+      grant.provider !== provider ||
+      grant.expiresAt < Date.now() ||
+      grant.redirectUri !== form.get("redirect_uri")
+    ) {
+      fail(400, "invalid_grant", "invalid authorization code");
+      return;
+    }
+
+    if (grant.codeChallenge) {
+      const verifier = form.get("code_verifier") ?? "";
+      const challenge = createHash("sha256")
+        .update(verifier)
+        .digest("base64url");
+      if (!safeEqual(challenge, grant.codeChallenge)) {
+        fail(400, "invalid_grant", "PKCE verification failed");
+        return;
+      }
+    }
+
+    if (BEHAVIOR[provider].workspaceInstall) {
+      succeed(
+        issueInstallation(provider, grant.user, grant.scope, grant.userScope)
+      );
+      return;
+    }
+
+    succeed(
+      issueTokens(provider, grant.user, grant.scope, {
+        nonce: grant.nonce,
+        refreshToken: BEHAVIOR[provider].refreshTokens,
+      })
+    );
+    return;
+  }
+
+  if (grantType === "refresh_token" && BEHAVIOR[provider].refreshTokens) {
+    const token = form.get("refresh_token") ?? "";
+    const grant = refreshTokens.get(token);
+
+    if (!grant || grant.provider !== provider || grant.rotated) {
+      fail(400, "invalid_grant", "invalid refresh token");
+      return;
+    }
+
+    // Providers that don't rotate keep the original refresh token valid
+    const { rotateRefreshTokens } = BEHAVIOR[provider];
+    grant.rotated = rotateRefreshTokens;
+    succeed(
+      issueTokens(provider, grant.user, grant.scope, {
+        refreshToken: rotateRefreshTokens,
+      })
+    );
+    return;
+  }
+
+  fail(400, "unsupported_grant_type", `${grantType} not supported`);
+}
+
+async function handleRevoke(
+  provider: Provider,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const form = await readForm(req);
+  const clientError = authenticateClient(provider, req, form);
+  if (clientError) {
+    sendError(res, 401, "invalid_client", clientError);
+    return;
+  }
+
+  // RFC 7009: respond 200 whether or not the token was known
+  const token = form.get("token") ?? "";
+  accessTokens.delete(token);
+  refreshTokens.delete(token);
+  res.writeHead(200);
+  res.end();
+}
+
+async function handleIntrospect(
+  provider: Provider,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const form = await readForm(req);
+  const clientError = authenticateClient(provider, req, form);
+  if (clientError) {
+    sendError(res, 401, "invalid_client", clientError);
+    return;
+  }
+
+  // RFC 7662 Section 2.2: unknown, expired and revoked tokens are just inactive
+  const issued = activeToken(form.get("token") ?? "");
+  if (!issued || issued.provider !== provider) {
+    sendJSON(res, 200, { active: false });
+    return;
+  }
+
+  const definition = getProviderDefinition(provider);
+  sendJSON(res, 200, {
+    active: true,
+    scope: issued.scope,
+    client_id: credentials(definition, provider).clientId,
+    sub: issued.user.id,
+    exp: issued.expiresAt ? Math.floor(issued.expiresAt / 1000) : undefined,
+    token_type: "Bearer",
+  });
+}
+
+function handleUserInfo(
+  provider: Provider,
+  req: IncomingMessage,
+  res: ServerResponse
+): void {
+  const issued = bearerToken(req);
+  if (!issued || issued.provider !== provider) {
+    res.writeHead(401, { "WWW-Authenticate": 'Bearer error="invalid_token"' });
+    res.end();
+    return;
+  }
+  sendJSON(res, 200, { sub: issued.user.id, ...profileClaims(issued.user) });
+}
+
+type ApiHandler = (
+  issued: IssuedToken | undefined,
+  path: string,
+  url: URL,
+  res: ServerResponse,
+  req: IncomingMessage
+) => void | Promise<void>;
+
+// MARK: GitHub
+
+const GITHUB_RATE_LIMIT = Number(process.env.MOCK_GITHUB_RATE_LIMIT) || 5000;
+const GITHUB_ORG = { id: 1, login: "mock-org", description: null };
+
+// Requests made per user in the current hour-long window
+const githubRateLimits = new Map<string, { used: number; reset: number }>();
+
+/**
+ * `count` repositories of an owner; every `privateEvery`th one is private
+ */
+function githubRepositories(
+  owner: { id: number | string; login: string },
+  count: number,
+  privateEvery = 4
+) {
+  return Array.from({ length: count }, (_, i) => {
+    const name = `${owner.login}-repo-${i + 1}`;
+    return {
+      id: Number(owner.id) * 1000 + i + 1,
+      name,
+      full_name: `${owner.login}/${name}`,
+      private: (i + 1) % privateEvery === 0,
+      html_url: `https://github.com/${owner.login}/${name}`,
+      description: `Mock repository ${i + 1}`,
+      language: ["TypeScript", "Go", "Rust"][i % 3],
+      stargazers_count: (count - i) * 3,
+      updated_at: new Date(Date.UTC(2025, 0, count - i)).toISOString(),
+      owner: { login: owner.login },
+    };
+  });
+}
+
+/**
+ * Send a page of `items` like GitHub's REST API: `page`/`per_page`
+ * query parameters, a Link header, an ETag honoring If-None-Match,
+ * and X-RateLimit-* headers. 304 responses don't count against the limit.
+ * With `key`, the page is wrapped as `{ total_count, [key]: items }` like
+ * the GitHub App endpoints.
+ */
+function sendGitHubPage(
+  user: MockUser,
+  items: unknown[],
+  url: URL,
+  req: IncomingMessage,
+  res: ServerResponse,
+  key?: string
+) {
+  const now = Math.floor(Date.now() / 1000);
+  let window = githubRateLimits.get(user.id);
+  if (!window || window.reset <= now) {
+    window = { used: 0, reset: now + 3600 };
+    githubRateLimits.set(user.id, window);
+  }
+
+  const perPage = Math.min(Number(url.searchParams.get("per_page")) || 30, 100);
+  const page = Math.max(Number(url.searchParams.get("page")) || 1, 1);
+  const last = Math.max(Math.ceil(items.length / perPage), 1);
+  const pageItems = items.slice((page - 1) * perPage, page * perPage);
+  const body = JSON.stringify(
+    key ? { total_count: items.length, [key]: pageItems } : pageItems
+  );
+  const etag = `W/"${createHash("sha1").update(body).digest("hex")}"`;
+
+  const pageUrl = (target: number) => {
+    const link = new URL(url);
+    link.searchParams.set("page", String(target));
+    return `<${link}>`;
+  };
+  const links = [
+    page < last && `${pageUrl(page + 1)}; rel="next"`,
+    page < last && `${pageUrl(last)}; rel="last"`,
+    page > 1 && `${pageUrl(1)}; rel="first"`,
+    page > 1 && `${pageUrl(page - 1)}; rel="prev"`,
+  ].filter(Boolean);
+
+  const notModified = req.headers["if-none-match"] === etag;
+  const limited = !notModified && window.used >= GITHUB_RATE_LIMIT;
+  if (!notModified && !limited) {
+    window.used += 1;
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "Cache-Control": "private, max-age=60",
+    ETag: etag,
+    "X-RateLimit-Limit": String(GITHUB_RATE_LIMIT),
+    "X-RateLimit-Remaining": String(GITHUB_RATE_LIMIT - window.used),
+    "X-RateLimit-Used": String(window.used),
+    "X-RateLimit-Reset": String(window.reset),
+    "X-RateLimit-Resource": "core",
+    ...(links.length > 0 && { Link: links.join(", ") }),
+  };
+
+  if (limited) {
+    res.writeHead(403, headers);
+    res.end(JSON.stringify({ message: "API rate limit exceeded" }));
+  } else if (notModified) {
+    res.writeHead(304, headers);
+    res.end();
+  } else {
+    res.writeHead(200, headers);
+    res.end(body);
+  }
+}
+
+/**
+ * GitHub-shaped REST API: GET /user, /user/emails, /user/orgs,
+ * /user/repos and /orgs/{org}/repos, plus the GitHub App's
+ * /user/installations and /installation/repositories
+ */
+const handleGitHubApi: ApiHandler = (issued, path, url, res, req) => {
+  if (!issued) {
+    sendJSON(res, 401, { message: "Bad credentials" });
+    return;
+  }
+  const { user, scope = "" } = issued;
+  // Private repositories are only visible with the repo scope
+  const visible = (repos: { private: boolean }[]) =>
+    scope.split(" ").includes("repo")
+      ? repos
+      : repos.filter((repo) => !repo.private);
+
+  switch (path) {
+    case "/user":
+      sendJSON(res, 200, {
+        id: Number(user.id),
+        login: user.login,
+        name: user.name,
+        email: null, // private email, see /user/emails
+        avatar_url: user.picture,
+        html_url: `https://github.com/${user.login}`,
+      });
+      return;
+    case "/user/emails":
+      if (!scope.split(" ").includes("user:email")) {
+        sendJSON(res, 404, { message: "Not Found" });
+        return;
+      }
+      sendJSON(res, 200, [
+        { email: user.email, primary: true, verified: true, visibility: null },
+      ]);
+      return;
+    case "/user/orgs":
+      sendGitHubPage(
+        user,
+        [
+          {
+            ...GITHUB_ORG,
+            avatar_url: `${ORIGIN}/avatars/${GITHUB_ORG.login}.png`,
+          },
+        ],
+        url,
+        req,
+        res
+      );
+      return;
+    case "/user/repos":
+      sendGitHubPage(
+        user,
+        visible(githubRepositories(user, 42)),
+        url,
+        req,
+        res
+      );
+      return;
+    case "/user/installations":
+      sendGitHubPage(
+        user,
+        githubInstallations(user),
+        url,
+        req,
+        res,
+        "installations"
+      );
+      return;
+    case "/installation/repositories":
+      if (issued.installationId === undefined) {
+        sendJSON(res, 403, {
+          message: "This endpoint requires an installation access token",
+        });
+        return;
+      }
+      sendGitHubPage(
+        user,
+        installationRepositories(issued.installationId),
+        url,
+        req,
+        res,
+        "repositories"
+      );
+      return;
+    case `/orgs/${GITHUB_ORG.login}/repos`:
+      sendGitHubPage(
+        user,
+        visible(githubRepositories(GITHUB_ORG, 7, 3)),
+        url,
+        req,
+        res
+      );
+      return;
+    default:
+      sendJSON(res, 404, { message: "Not Found" });
+  }
+};
+
+/**
+ * GitHub's POST /applications/{client_id}/token, authenticated as the
+ * OAuth app with Basic auth
+ */
+async function handleGitHubTokenCheck(
+  provider: Provider,
+  clientId: string,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<void> {
+  const expected = credentials(getProviderDefinition(provider), provider);
+  const [scheme, value = ""] = (req.headers.authorization ?? "").split(" ");
+  const decoded = Buffer.from(value, "base64").toString("utf8");
+
+  if (
+    scheme?.toLowerCase() !== "basic" ||
+    clientId !== expected.clientId ||
+    !safeEqual(decoded, `${expected.clientId}:${expected.clientSecret}`)
+  ) {
+    sendJSON(res, 401, { message: "Requires authentication" });
+    return;
+  }
+
+  let accessToken: unknown;
+  try {
+    accessToken = JSON.parse(await readBody(req)).access_token;
+  } catch {
+    sendJSON(res, 400, { message: "Problems parsing JSON" });
+    return;
+  }
+
+  const issued =
+    typeof accessToken === "string" ? activeToken(accessToken) : undefined;
+  if (!issued || issued.provider !== provider) {
+    sendJSON(res, 404, { message: "Not Found" });
+    return;
+  }
+
+  sendJSON(res, 200, {
+    scopes: issued.scope?.split(" ").filter(Boolean) ?? [],
+    expires_at: issued.expiresAt
+      ? new Date(issued.expiresAt).toISOString()
+      : null,
+    app: { client_id: clientId, name: "Mock OAuth App" },
+    user: { id: Number(issued.user.id), login: issued.user.login },
+  });
+}
+
+// MARK: GitHub App
+
+const GITHUB_APP_ID = "424242";
+const GITHUB_APP_SLUG = "mock-app";
+const INSTALLATION_TOKEN_TTL_SECONDS = 3600;
+
+// The app's private key: GITHUB_APP_PRIVATE_KEY when set, so the printed
+// environment stays valid across restarts, or the ID token signing key
+const githubAppKey = process.env.GITHUB_APP_PRIVATE_KEY
+  ? createPrivateKey(process.env.GITHUB_APP_PRIVATE_KEY.replaceAll("\\n", "\n"))
+  : privateKey;
+
+/**
+ * Installations accessible to a user: one on their own account, with
+ * every repository, and one on the mock organization with a selection
+ */
+function githubInstallations(user: MockUser) {
+  const installation = (
+    account: { id: number; login: string; type: "User" | "Organization" },
+    selection: "all" | "selected"
+  ) => ({
+    id: account.id,
+    account: {
+      ...account,
+      avatar_url: `${ORIGIN}/avatars/${account.login}.png`,
+    },
+    app_slug: GITHUB_APP_SLUG,
+    html_url: `https://github.com/settings/installations/${account.id}`,
+    repository_selection: selection,
+    permissions: { contents: "read", metadata: "read" },
+    events: ["push", "pull_request"],
+    suspended_at: null,
+  });
+
+  return [
+    installation(
+      { id: Number(user.id), login: user.login, type: "User" },
+      "all"
+    ),
+    installation(
+      { id: GITHUB_ORG.id, login: GITHUB_ORG.login, type: "Organization" },
+      "selected"
+    ),
+  ];
+}
+
+function installationRepositories(installationId: number) {
+  if (installationId === GITHUB_ORG.id) {
+    return githubRepositories(GITHUB_ORG, 7, 3).slice(0, 3);
+  }
+  const user = USERS.find(({ id }) => Number(id) === installationId);
+  return user ? githubRepositories(user, 42) : [];
+}
+
+/**
+ * Verify the app's RS256 JWT: signed with its private key, issued by its
+ * app ID, and valid for at most 10 minutes
+ */
+function verifyAppJwt(req: IncomingMessage): boolean {
+  const [scheme, jwt = ""] = (req.headers.authorization ?? "").split(" ");
+  const [header, payload, signature] = jwt.split(".");
+  if (scheme?.toLowerCase() !== "bearer" || !header || !payload || !signature) {
+    return false;
+  }
+
+  const valid = verify(
+    "sha256",
+    Buffer.from(`${header}.${payload}`),
+    createPublicKey(githubAppKey),
+    Buffer.from(signature, "base64url")
+  );
+  const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  const now = Math.floor(Date.now() / 1000);
+  return (
+    valid &&
+    claims.iss === GITHUB_APP_ID &&
+    claims.exp > now &&
+    claims.exp - claims.iat <= 660
+  );
+}
+
+/**
+ * GitHub's POST /app/installations/{installation_id}/access_tokens,
+ * authenticated with the app's JWT
+ */
+function handleInstallationToken(
+  provider: Provider,
+  installationId: number,
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  if (!verifyAppJwt(req)) {
+    sendJSON(res, 401, {
+      message: "A JSON web token could not be decoded",
+    });
+    return;
+  }
+  const installation = USERS.flatMap((user) => githubInstallations(user)).find(
+    ({ id }) => id === installationId
+  );
+  if (!installation) {
+    sendJSON(res, 404, { message: "Not Found" });
+    return;
+  }
+
+  // Rate limits are per user: attribute the token to the account's user,
+  // or the first one for the organization
+  const user =
+    USERS.find(({ id }) => Number(id) === installation.account.id) ?? USERS[0];
+  const token = `ghs_${randomBytes(24).toString("base64url")}`;
+  const expiresAt = Date.now() + INSTALLATION_TOKEN_TTL_SECONDS * 1000;
+  accessTokens.set(token, { provider, user, expiresAt, installationId });
+
+  sendJSON(res, 201, {
+    token,
+    expires_at: new Date(expiresAt).toISOString(),
+    permissions: installation.permissions,
+    repository_selection: installation.repository_selection,
+  });
+}
+
+const SLACK_CHANNELS = [
+  "general",
+  "random",
+  "announcements",
+  "engineering",
+  "design",
+  "support",
+  "releases",
+  "incidents",
+  "hiring",
+  "social",
+  "help-desk",
+  "off-topic",
+].map((name, i) => ({
+  id: `C0MOCK${String(i + 1).padStart(4, "0")}`,
+  name,
+  is_channel: true,
+  is_private: false,
+  is_archived: false,
+  is_general: name === "general",
+  is_member: i < 2,
+  num_members: USERS.length,
+  topic: { value: `Mock #${name} topic` },
+  purpose: { value: `Mock #${name} purpose` },
+  created: 1700000000 + i * 86400,
+}));
+
+/**
+ * A page of a cursor-paginated Slack list. Cursors are opaque to clients;
+ * here they're the base64 offset, like Slack's `dXNlcjpVMDYx...`
+ */
+function slackPage<T>(items: T[], args: URLSearchParams) {
+  const offset = Number(
+    Buffer.from(args.get("cursor") ?? "", "base64")
+      .toString("utf8")
+      .replace("offset:", "")
+  );
+  const start = Number.isInteger(offset) && offset > 0 ? offset : 0;
+  const limit = Math.min(Number(args.get("limit")) || 100, 1000);
+  const end = start + limit;
+
+  return {
+    items: items.slice(start, end),
+    response_metadata: {
+      next_cursor:
+        end < items.length
+          ? Buffer.from(`offset:${end}`).toString("base64")
+          : "",
+    },
+  };
+}
+
+/**
+ * Slack Web API: users.identity, auth.test, conversations.list and
+ * users.list, with `{ ok }` envelopes
+ */
+const handleSlackApi: ApiHandler = async (issued, path, url, res, req) => {
+  if (!issued) {
+    sendJSON(res, 200, { ok: false, error: "invalid_auth" });
+    return;
+  }
+  const { user, scope = "", bot } = issued;
+  // WebClient sends method arguments as a form body
+  const args = req.method === "POST" ? await readForm(req) : url.searchParams;
+  const missingScope = (needed: string) => {
+    if (scope.split(/[ ,]/).includes(needed)) {
+      return false;
+    }
+    sendJSON(res, 200, {
+      ok: false,
+      error: "missing_scope",
+      needed,
+      provided: scope,
+    });
+    return true;
+  };
+
+  switch (path) {
+    case "/users.identity":
+      if (bot) {
+        sendJSON(res, 200, { ok: false, error: "not_allowed_token_type" });
+        return;
+      }
+      if (missingScope("identity.basic")) {
+        return;
+      }
+      sendJSON(res, 200, {
+        ok: true,
+        user: {
+          id: `U${user.id}`,
+          name: user.name,
+          email: user.email,
+          image_192: user.picture,
+        },
+        team: SLACK_TEAM,
+      });
+      return;
+    case "/auth.test":
+      sendJSON(res, 200, {
+        ok: true,
+        url: "https://mock-workspace.slack.com/",
+        team: SLACK_TEAM.name,
+        team_id: SLACK_TEAM.id,
+        is_enterprise_install: false,
+        ...(bot
+          ? {
+              user: SLACK_BOT.name,
+              user_id: SLACK_BOT.userId,
+              bot_id: SLACK_BOT.id,
+            }
+          : { user: user.login, user_id: `U${user.id}` }),
+      });
+      return;
+    case "/conversations.list": {
+      if (missingScope("channels:read")) {
+        return;
+      }
+      const { items, response_metadata } = slackPage(SLACK_CHANNELS, args);
+      sendJSON(res, 200, { ok: true, channels: items, response_metadata });
+      return;
+    }
+    case "/users.list": {
+      if (missingScope("users:read")) {
+        return;
+      }
+      const members = [
+        ...USERS.map((u) => ({
+          id: `U${u.id}`,
+          team_id: SLACK_TEAM.id,
+          name: u.login,
+          real_name: u.name,
+          deleted: false,
+          is_bot: false,
+          tz: "Europe/London",
+          profile: { display_name: u.login, image_72: u.picture },
+        })),
+        {
+          id: SLACK_BOT.userId,
+          team_id: SLACK_TEAM.id,
+          name: SLACK_BOT.name,
+          real_name: "Mock Bot",
+          deleted: false,
+          is_bot: true,
+          profile: { display_name: SLACK_BOT.name },
+        },
+      ];
+      const { items, response_metadata } = slackPage(members, args);
+      sendJSON(res, 200, { ok: true, members: items, response_metadata });
+      return;
+    }
+    default:
+      sendJSON(res, 200, { ok: false, error: "unknown_method" });
+  }
+};
+
+/**
+ * Facebook Graph API: GET /me?fields=...
+ */
+const handleFacebookApi: ApiHandler = (issued, path, url, res) => {
+  if (!issued) {
+    sendJSON(res, 401, {
+      error: {
+        message: "Invalid OAuth access token.",
+        type: "OAuthException",
+        code: 190,
+      },
+    });
+    return;
+  }
+  if (path !== "/me") {
+    sendJSON(res, 404, {
+      error: { message: "Unknown path", type: "GraphMethodException" },
+    });
+    return;
+  }
+
+  const { user, scope = "" } = issued;
+  const fields = (url.searchParams.get("fields") ?? "id,name").split(",");
+  const me: Record<string, unknown> = { id: user.id, name: user.name };
+  if (scope.split(/[ ,]/).includes("email")) {
+    me.email = user.email;
+  }
+  me.picture = {
+    data: { url: user.picture, is_silhouette: false, width: 200, height: 200 },
+  };
+
+  // Only return requested fields, like the Graph API
+  sendJSON(
+    res,
+    200,
+    Object.fromEntries(
+      Object.entries(me).filter(([key]) =>
+        fields.some((field) => field === key || field.startsWith(`${key}.`))
+      )
+    )
+  );
+};
+
+/**
+ * Supabase Management API: GET /v1/organizations, /v1/projects,
+ * /v1/projects/{ref}/api-keys and /v1/projects/{ref}/branches
+ */
+const handleSupabaseApi: ApiHandler = (issued, path, url, res) => {
+  if (!issued) {
+    sendJSON(res, 401, { message: "Unauthorized" });
+    return;
+  }
+  const { user } = issued;
+  const organization = {
+    id: `mock-org-${user.id}`,
+    name: `${user.name}'s Org`,
+  };
+  const projects = [
+    {
+      id: `mockref${user.id}a`,
+      organization_id: organization.id,
+      name: "mock-app",
+      region: "us-east-1",
+      created_at: "2024-03-01T12:00:00Z",
+      status: "ACTIVE_HEALTHY",
+    },
+    {
+      id: `mockref${user.id}b`,
+      organization_id: organization.id,
+      name: "mock-staging",
+      region: "eu-central-1",
+      created_at: "2024-06-15T08:30:00Z",
+      status: "INACTIVE",
+    },
+  ];
+
+  if (path === "/v1/organizations") {
+    sendJSON(res, 200, [organization]);
+    return;
+  }
+  if (path === "/v1/projects") {
+    sendJSON(res, 200, projects);
+    return;
+  }
+
+  const match = path.match(/^\/v1\/projects\/([^/]+)\/(api-keys|branches)$/);
+  const project = match && projects.find(({ id }) => id === match[1]);
+  if (!match || !project) {
+    sendJSON(res, 404, { message: "Not Found" });
+    return;
+  }
+
+  if (match[2] === "api-keys") {
+    sendJSON(res, 200, [
+      { name: "anon", api_key: `eyJmock.${project.id}.anon${user.id}` },
+      {
+        name: "service_role",
+        api_key: `eyJmock.${project.id}.service${user.id}`,
+      },
+    ]);
+    return;
+  }
+
+  // Branching is only enabled for the first project
+  sendJSON(
+    res,
+    200,
+    project === projects[0]
+      ? [
+          {
+            id: `branch-${project.id}-main`,
+            name: "main",
+            project_ref: project.id,
+            parent_project_ref: project.id,
+            is_default: true,
+            status: "FUNCTIONS_DEPLOYED",
+            created_at: project.created_at,
+            updated_at: "2024-09-10T10:00:00Z",
+          },
+          {
+            id: `branch-${project.id}-preview`,
+            name: "feature-login",
+            project_ref: `mockpreview${user.id}`,
+            parent_project_ref: project.id,
+            is_default: false,
+            git_branch: "feature/login",
+            status: "MIGRATIONS_PASSED",
+            created_at: "2024-09-12T09:00:00Z",
+            updated_at: "2024-09-12T09:05:00Z",
+          },
+        ]
+      : []
+  );
+};
+
+const API_HANDLERS: Record<NonNullable<MockBehavior["api"]>, ApiHandler> = {
+  github: handleGitHubApi,
+  slack: handleSlackApi,
+  facebook: handleFacebookApi,
+  supabase: handleSupabaseApi,
+};
+
+// MARK: Server
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", ORIGIN);
+  console.log(req.method, url.pathname);
+
+  // RFC 8414 inserts the well-known segment before the issuer path
+  const wellKnown = url.pathname.match(
+    /^\/\.well-known\/oauth-authorization-server\/([^/]+)$/
+  );
+  const [segment = "", ...rest] = wellKnown
+    ? [wellKnown[1], ".well-known", "oauth-authorization-server"]
+    : url.pathname.split("/").slice(1);
+  const path = `/${rest.join("/")}`;
+
+  if (!isValidProvider(segment)) {
+    sendJSON(res, 404, { error: "not_found" });
+    return;
+  }
+  const provider = segment;
+  const { api, introspection, githubApp } = BEHAVIOR[provider];
+  const tokenCheck = path.match(/^\/api\/applications\/([^/]+)\/token$/);
+  const installationToken = path.match(
+    /^\/api\/app\/installations\/(\d+)\/access_tokens$/
+  );
+
+  try {
+    if (
+      req.method === "GET" &&
+      (path === "/.well-known/openid-configuration" ||
+        path === "/.well-known/oauth-authorization-server")
+    ) {
+      sendJSON(res, 200, metadata(provider));
+    } else if (req.method === "GET" && path === "/jwks") {
+      sendJSON(res, 200, JWKS);
+    } else if (req.method === "GET" && path === "/authorize") {
+      handleAuthorize(provider, url, res);
+    } else if (req.method === "POST" && path === "/token") {
+      await handleToken(provider, req, res);
+    } else if (req.method === "POST" && path === "/revoke") {
+      await handleRevoke(provider, req, res);
+    } else if (
+      req.method === "POST" &&
+      path === "/introspect" &&
+      introspection
+    ) {
+      await handleIntrospect(provider, req, res);
+    } else if (req.method === "POST" && tokenCheck && api === "github") {
+      await handleGitHubTokenCheck(
+        provider,
+        decodeURIComponent(tokenCheck[1]),
+        req,
+        res
+      );
+    } else if (req.method === "POST" && installationToken && githubApp) {
+      handleInstallationToken(provider, Number(installationToken[1]), req, res);
+    } else if (
+      req.method === "GET" &&
+      path === `/apps/${GITHUB_APP_SLUG}/installations/new` &&
+      githubApp
+    ) {
+      // Installing redirects to the app's Setup URL, here on the user's account
+      const setupUrl = new URL("/api/integrations/github-app/setup", APP_URL);
+      setupUrl.searchParams.set("installation_id", USERS[0].id);
+      setupUrl.searchParams.set("setup_action", "install");
+      res.writeHead(302, { Location: setupUrl.toString() });
+      res.end();
+    } else if (path === "/userinfo" && servesUserInfo(provider)) {
+      handleUserInfo(provider, req, res);
+    } else if (path.startsWith("/api/") && api) {
+      const issued = bearerToken(req);
+      await API_HANDLERS[api](
+        issued?.provider === provider ? issued : undefined,
+        path.slice("/api".length),
+        url,
+        res,
+        req
+      );
+    } else {
+      sendJSON(res, 404, { error: "not_found" });
+    }
+  } catch (error) {
+    console.error(error);
+    sendError(res, 500, "server_error", "mock server error");
+  }
+});
+
+/**
+ * Environment for pointing the app at this server, as `KEY=value` lines
+ * grouped by provider
+ */
+export function getEnvironment(): string[] {
+  const lines = [`APP_URL=${APP_URL}`];
+
+  for (const provider of VALID_PROVIDERS) {
+    const definition = getProviderDefinition(provider);
+    const prefix = definition.envPrefix;
+    const { clientId, clientSecret } = credentials(definition, provider);
+    const base = issuer(provider);
+
+    lines.push(
+      "",
+      `${prefix}_CLIENT_ID=${clientId}`,
+      `${prefix}_CLIENT_SECRET=${clientSecret}`,
+      `${prefix}_REDIRECT_URI=${redirectUri(provider)}`,
+      `${prefix}_OAUTH_ISSUER=${base}`
+    );
+    if (!definition.discovery) {
+      lines.push(
+        `${prefix}_OAUTH_AUTHORIZATION_ENDPOINT=${base}/authorize`,
+        `${prefix}_OAUTH_TOKEN_ENDPOINT=${base}/token`,
+        `${prefix}_OAUTH_REVOCATION_ENDPOINT=${base}/revoke`
+      );
+      if (BEHAVIOR[provider].introspection) {
+        lines.push(`${prefix}_OAUTH_INTROSPECTION_ENDPOINT=${base}/introspect`);
+      }
+      if (servesUserInfo(provider)) {
+        lines.push(`${prefix}_OAUTH_USERINFO_ENDPOINT=${base}/userinfo`);
+      }
+    }
+    if (BEHAVIOR[provider].api) {
+      lines.push(`${prefix}_API_URL=${base}/api`);
+    }
+    // Used by npm run replay-slack-events to sign fixture payloads
+    if (BEHAVIOR[provider].workspaceInstall) {
+      lines.push(`${prefix}_SIGNING_SECRET=mock-${provider}-signing-secret`);
+    }
+    if (BEHAVIOR[provider].githubApp) {
+      const pem = githubAppKey.export({ type: "pkcs1", format: "pem" });
+      lines.push(
+        `${prefix}_ID=${GITHUB_APP_ID}`,
+        `${prefix}_SLUG=${GITHUB_APP_SLUG}`,
+        `${prefix}_PRIVATE_KEY="${pem.toString().trim().replaceAll("\n", "\\n")}"`
+      );
+    }
+    // Used by npm run replay-github-webhooks to sign fixture deliveries
+    if (provider === "github") {
+      lines.push(`${prefix}_WEBHOOK_SECRET=mock-${provider}-webhook-secret`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Listen on MOCK_OAUTH_PORT. The end-to-end tests start the server
+ * in-process and apply getEnvironment() themselves.
+ */
+export function startMockServer(): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(PORT, () => resolve(server));
+  });
+}
+
+// Run directly by npm run mock-oauth
+if (require.main === module) {
+  startMockServer().then(() => {
+    console.log(`Mock OAuth server listening on ${ORIGIN}\n`);
+    console.log(getEnvironment().join("\n"));
+    console.log();
+  });
+}
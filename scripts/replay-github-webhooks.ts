@@ -0,0 +1,80 @@
+/**
+ * Replay GitHub webhook fixtures against the local /api/webhooks/github
+ * route, signed like GitHub signs deliveries, so signature checks,
+ * correlation and redelivery handling can be exercised without a public
+ * payload URL.
+ *
+ *   npm run replay-github-webhooks [fixture...]
+ *
+ * Fixtures live in scripts/fixtures/github as `{ event, payload }`. Each
+ * is sent a second time with the same X-GitHub-Delivery, which the route
+ * should skip as a redelivery.
+ */
+import { createHmac, randomUUID } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+
+const APP_URL = process.env.APP_URL ?? "http://localhost:3000";
+const WEBHOOK_SECRET =
+  process.env.GITHUB_WEBHOOK_SECRET ?? "mock-github-webhook-secret";
+const FIXTURES = join(import.meta.dirname, "fixtures", "github");
+
+/**
+ * https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries
+ */
+function sign(body: string): string {
+  const hmac = createHmac("sha256", WEBHOOK_SECRET);
+  hmac.update(body);
+  return `sha256=${hmac.digest("hex")}`;
+}
+
+async function send(
+  name: string,
+  event: string,
+  deliveryId: string,
+  body: string
+) {
+  const response = await fetch(`${APP_URL}/api/webhooks/github`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "GitHub-Hookshot/replay",
+      "X-GitHub-Event": event,
+      "X-GitHub-Delivery": deliveryId,
+      "X-Hub-Signature-256": sign(body),
+    },
+    body,
+  });
+
+  const text = await response.text();
+  console.log(`${name}: ${response.status} ${text}`.trim());
+}
+
+async function replay(file: string) {
+  const name = basename(file, ".json");
+  const { event, payload } = JSON.parse(
+    await readFile(join(FIXTURES, file), "utf8")
+  );
+
+  // Unique per run, so the first delivery isn't mistaken for a redelivery
+  const deliveryId = randomUUID();
+  const body = JSON.stringify(payload);
+  await send(name, event, deliveryId, body);
+  await send(`${name} (redelivery)`, event, deliveryId, body);
+}
+
+async function main() {
+  const requested = process.argv.slice(2);
+  const files = requested.length
+    ? requested.map((name) => (name.endsWith(".json") ? name : `${name}.json`))
+    : (await readdir(FIXTURES)).filter((file) => file.endsWith(".json"));
+
+  for (const file of files) {
+    await replay(file);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+/**
+ * Replay Slack Events API and interactivity fixtures against the local
+ * /api/slack/events route, signed like Slack signs requests, so the
+ * signature check, URL verification, dispatch and retry handling can be
+ * exercised without a public Request URL.
+ *
+ *   npm run replay-slack-events [fixture...]
+ *
+ * Fixtures live in scripts/fixtures/slack. Events are sent a second time
+ * with X-Slack-Retry-Num, which the route should skip as a duplicate.
+ */
+import { createHmac } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { basename, join } from "node:path";
+
+const APP_URL = process.env.APP_URL ?? "http://localhost:3000";
+const SIGNING_SECRET =
+  process.env.SLACK_SIGNING_SECRET ?? "mock-slack-signing-secret";
+const FIXTURES = join(import.meta.dirname, "fixtures", "slack");
+
+/**
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ */
+function sign(body: string, timestamp: number): string {
+  const hmac = createHmac("sha256", SIGNING_SECRET);
+  hmac.update(`v0:${timestamp}:${body}`);
+  return `v0=${hmac.digest("hex")}`;
+}
+
+async function send(
+  name: string,
+  body: string,
+  contentType: string,
+  headers: Record<string, string> = {}
+) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const response = await fetch(`${APP_URL}/api/slack/events`, {
+    method: "POST",
+    headers: {
+      "Content-Type": contentType,
+      "X-Slack-Request-Timestamp": String(timestamp),
+      "X-Slack-Signature": sign(body, timestamp),
+      ...headers,
+    },
+    body,
+  });
+
+  const text = await response.text();
+  const noRetry = response.headers.get("x-slack-no-retry") ? " (no retry)" : "";
+  console.log(`${name}: ${response.status}${noRetry} ${text}`.trim());
+}
+
+async function replay(file: string) {
+  const name = basename(file, ".json");
+  const payload = JSON.parse(await readFile(join(FIXTURES, file), "utf8"));
+
+  // Interactive payloads are posted as a form field, events as JSON
+  if (
+    payload.type !== "event_callback" &&
+    payload.type !== "url_verification"
+  ) {
+    const form = new URLSearchParams({ payload: JSON.stringify(payload) });
+    await send(name, form.toString(), "application/x-www-form-urlencoded");
+    return;
+  }
+
+  // Unique per run, so the first delivery isn't mistaken for a retry
+  if (payload.event_id) {
+    payload.event_id = `${payload.event_id}${Date.now()}`;
+  }
+  const body = JSON.stringify(payload);
+  await send(name, body, "application/json");
+
+  if (payload.type === "event_callback") {
+    await send(`${name} (retry)`, body, "application/json", {
+      "X-Slack-Retry-Num": "1",
+      "X-Slack-Retry-Reason": "http_timeout",
+    });
+  }
+}
+
+async function main() {
+  const requested = process.argv.slice(2);
+  const files = requested.length
+    ? requested.map((name) => (name.endsWith(".json") ? name : `${name}.json`))
+    : (await readdir(FIXTURES)).filter((file) => file.endsWith(".json"));
+
+  for (const file of files) {
+    await replay(file);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { hasScopes } from "@/lib/access-token";
+import { getTokenStore } from "@/lib/token-store";
+
+import { TestSession } from "./support/session";
+
+describe("hasScopes", () => {
+  let session: TestSession;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    session = new TestSession();
+    sessionId = session.signIn();
+    await getTokenStore().save(sessionId, "github", "583231", {
+      accessToken: "token",
+      scope: "read:user,read:org",
+    });
+  });
+
+  it("checks the granted scopes", async () => {
+    expect(await session.run(() => hasScopes("github", ["read:org"]))).toBe(
+      true
+    );
+    expect(await session.run(() => hasScopes("github", ["repo"]))).toBe(false);
+    expect(await session.run(() => hasScopes("supabase", []))).toBe(false);
+  });
+
+  it("is false when the connection has to be reauthorized", async () => {
+    await getTokenStore().update(sessionId, "github", "583231", {
+      reauthorizationRequired: true,
+    });
+
+    expect(await session.run(() => hasScopes("github", ["read:org"]))).toBe(
+      false
+    );
+  });
+
+  it("is false when the token expired and can't be refreshed", async () => {
+    await getTokenStore().update(sessionId, "github", "583231", {
+      expiresAt: Date.now() - 1000,
+    });
+
+    expect(await session.run(() => hasScopes("github", ["read:org"]))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,318 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import * as oauth from "oauth4webapi";
+
+import { POST } from "@/app/api/chat/route";
+import { getChatModel } from "@/lib/chat-model";
+import { getConnectionTools } from "@/lib/chat-tools";
+import { OAuthClient } from "@/lib/oauth-client";
+import { getInstallationStore } from "@/lib/slack-installations";
+import { getTokenStore } from "@/lib/token-store";
+
+import { stubProviderEnv } from "./support/env";
+import { FixtureServer } from "./support/fixture-server";
+import { createMockChatModel } from "./support/mock-chat-model";
+import { TestSession } from "./support/session";
+
+vi.mock("@/lib/chat-model", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/chat-model")>();
+  return { ...actual, getChatModel: vi.fn(actual.getChatModel) };
+});
+
+const api = new FixtureServer();
+
+const REPOSITORY = {
+  id: 100101,
+  name: "repo-1",
+  full_name: "ada/repo-1",
+  private: false,
+  description: "Notes on the Analytical Engine",
+  language: "TypeScript",
+  stargazers_count: 42,
+  updated_at: "2025-01-01T00:00:00Z",
+  html_url: "https://github.com/ada/repo-1",
+};
+
+/**
+ * Chunks of a UI message stream response (server-sent events)
+ */
+async function readStream(response: Response) {
+  const text = await response.text();
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("data: ") && line !== "data: [DONE]")
+    .map((line) => JSON.parse(line.slice("data: ".length)));
+}
+
+function userMessage(text: string) {
+  return {
+    id: crypto.randomUUID(),
+    role: "user",
+    parts: [{ type: "text", text }],
+  };
+}
+
+let session: TestSession;
+let sessionId: string;
+
+beforeAll(async () => {
+  await api.start();
+  stubProviderEnv(["github", "supabase", "slack"], {
+    GITHUB_API_URL: api.url(""),
+  });
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await api.stop();
+});
+
+beforeEach(async () => {
+  api.reset();
+  session = new TestSession();
+  sessionId = session.signIn();
+  await getTokenStore().save(sessionId, "github", "1001", {
+    accessToken: "github-token",
+    scope: "repo",
+  });
+});
+
+// MARK: Tools
+
+describe("getConnectionTools", () => {
+  async function getStatuses() {
+    const { tools, availability } = await session.run(() =>
+      getConnectionTools()
+    );
+    return {
+      tools: Object.keys(tools),
+      statuses: Object.fromEntries(
+        availability.map(({ name, status, missingScopes }) => [
+          name,
+          missingScopes ? `${status}: ${missingScopes.join(" ")}` : status,
+        ])
+      ),
+    };
+  }
+
+  it("only offers tools whose scopes were granted", async () => {
+    const { tools, statuses } = await getStatuses();
+
+    expect(tools).toEqual(["github_list_repositories"]);
+    expect(statuses).toMatchObject({
+      github_list_repositories: "available",
+      github_list_organizations: "missing_scopes: read:org",
+      github_list_organization_repositories: "missing_scopes: read:org",
+      supabase_list_projects: "not_connected",
+      slack_list_channels: "not_connected",
+    });
+    // Disabled providers aren't listed
+    expect(statuses).not.toHaveProperty("github_app_list_installations");
+  });
+
+  it("checks Slack tools against the installation's bot scopes", async () => {
+    const workspace = { id: "T0123ABCD", name: "Acme" };
+    await getTokenStore().save(sessionId, "slack", "U0456EFGH", {
+      accessToken: "xoxp-token",
+      scope: "channels:read,users:read",
+      profile: { organization: workspace },
+    });
+    await getInstallationStore().storeInstallation({
+      team: workspace,
+      enterprise: undefined,
+      user: { id: "U0456EFGH", token: undefined, scopes: undefined },
+      bot: {
+        id: "B0123",
+        userId: "U0BOT",
+        token: "xoxb-token",
+        scopes: ["channels:read"],
+      },
+      isEnterpriseInstall: false,
+      authVersion: "v2",
+    });
+
+    const { statuses } = await getStatuses();
+    expect(statuses).toMatchObject({
+      slack_list_channels: "available",
+      slack_list_users: "missing_scopes: users:read",
+    });
+  });
+
+  it("keeps other tools when the Slack bot token can't be refreshed", async () => {
+    const workspace = { id: "T0EXPIRED", name: "Expired" };
+    await getTokenStore().save(sessionId, "slack", "U0456EFGH", {
+      accessToken: "xoxp-token",
+      scope: "channels:read,users:read",
+      profile: { organization: workspace },
+    });
+    await getInstallationStore().storeInstallation({
+      team: workspace,
+      enterprise: undefined,
+      user: { id: "U0456EFGH", token: undefined, scopes: undefined },
+      bot: {
+        id: "B0123",
+        userId: "U0BOT",
+        token: "xoxe.xoxb-expired",
+        refreshToken: "xoxe-1-refresh",
+        expiresAt: Math.floor(Date.now() / 1000) - 60,
+        scopes: ["channels:read", "users:read"],
+      },
+      isEnterpriseInstall: false,
+      authVersion: "v2",
+    });
+    const refresh = vi.spyOn(OAuthClient, "refreshAccessToken");
+
+    try {
+      // Slack rejects the rotated refresh token
+      refresh.mockRejectedValueOnce(
+        new oauth.ResponseBodyError("invalid_refresh_token", {
+          cause: { error: "invalid_refresh_token" },
+          response: new Response(null, { status: 400 }),
+        })
+      );
+      let { tools, statuses } = await getStatuses();
+      expect(tools).toEqual(["github_list_repositories"]);
+      expect(statuses).toMatchObject({
+        github_list_repositories: "available",
+        slack_list_channels: "reinstall_required",
+        slack_list_users: "reinstall_required",
+      });
+
+      // Or the refresh fails for another reason
+      refresh.mockRejectedValueOnce(new Error("fetch failed"));
+      ({ tools, statuses } = await getStatuses());
+      expect(tools).toEqual(["github_list_repositories"]);
+      expect(statuses.slack_list_channels).toBe("unavailable");
+    } finally {
+      refresh.mockRestore();
+      await getTokenStore().delete(sessionId, "slack", "U0456EFGH");
+    }
+  });
+
+  it("reports connections that have to be reauthorized", async () => {
+    await getTokenStore().update(sessionId, "github", "1001", {
+      reauthorizationRequired: true,
+    });
+
+    const { tools, statuses } = await getStatuses();
+    expect(tools).toEqual([]);
+    expect(statuses.github_list_repositories).toBe("reauthorization_required");
+  });
+});
+
+// MARK: Route
+
+describe("POST /api/chat", () => {
+  function chat(body: unknown) {
+    return session.request(POST, "/api/chat", { method: "POST", body });
+  }
+
+  it("answers 503 without a model", async () => {
+    vi.stubEnv("CHAT_MODEL", "");
+
+    const response = await chat({ messages: [userMessage("hi")] });
+    expect(response.status).toBe(503);
+    expect((await response.json()).error).toMatch(/not configured/);
+  });
+
+  it("answers 503 for an invalid CHAT_MODEL", async () => {
+    vi.stubEnv("CHAT_MODEL", "gpt-5");
+
+    const response = await chat({ messages: [userMessage("hi")] });
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({
+      error: "Chat is misconfigured. Check CHAT_MODEL.",
+    });
+  });
+
+  describe("with a model", () => {
+    beforeEach(() => {
+      vi.mocked(getChatModel).mockReturnValue(createMockChatModel());
+    });
+
+    it.each([
+      ["no messages", {}],
+      ["messages that aren't UI messages", { messages: [{ role: "user" }] }],
+      ["an unknown role", { messages: [{ ...userMessage("hi"), role: "x" }] }],
+      ["invalid JSON", "not json"],
+    ])("rejects %s", async (name, body) => {
+      const response = await chat(body);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: "Invalid request" });
+    });
+
+    it("calls the connection's tools and streams the answer", async () => {
+      api.route("/user/repos", { body: [REPOSITORY] });
+
+      const response = await chat({
+        messages: [userMessage("list my github repositories")],
+      });
+      expect(response.status).toBe(200);
+      const chunks = await readStream(response);
+
+      expect(chunks).toContainEqual(
+        expect.objectContaining({
+          type: "tool-input-available",
+          toolName: "github_list_repositories",
+        })
+      );
+      expect(api.requests[0].headers.authorization).toBe("Bearer github-token");
+      const text = chunks
+        .filter(({ type }) => type === "text-delta")
+        .map(({ delta }) => delta)
+        .join("");
+      expect(text).toContain("github_list_repositories returned");
+      expect(text).toContain("ada/repo-1");
+    });
+
+    it("doesn't send tool error details to the client", async () => {
+      api.route("/user/repos", {
+        status: 500,
+        body: { message: "Internal details of the failure" },
+      });
+
+      const response = await chat({
+        messages: [userMessage("list my github repositories")],
+      });
+      const chunks = await readStream(response);
+
+      // The model gets the error to explain it; the client doesn't
+      expect(
+        chunks
+          .filter(
+            ({ type }) => type === "tool-output-error" || type === "error"
+          )
+          .map(({ errorText }) => errorText)
+      ).toEqual(["An error occurred."]);
+    });
+
+    it("only gives the model tools the connection has scopes for", async () => {
+      const model = createMockChatModel();
+      vi.mocked(getChatModel).mockReturnValue(model);
+
+      await readStream(
+        await chat({ messages: [userMessage("list my github organizations")] })
+      );
+
+      const [{ tools, prompt }] = model.doStreamCalls;
+      expect(tools?.map(({ name }) => name)).toEqual([
+        "github_list_repositories",
+      ]);
+      expect(prompt[0]).toMatchObject({ role: "system" });
+      expect(prompt[0].content).toContain(
+        "github_list_organizations: the github connection needs read:org"
+      );
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { createHmac, randomUUID } from "node:crypto";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { POST as disconnect } from "@/app/api/disconnect/route";
+import { GET as listDeliveries } from "@/app/api/integrations/github/webhooks/route";
+import { POST as receive } from "@/app/api/webhooks/github/route";
+import { getWebhookStore, linkGitHubAccount } from "@/lib/github-webhooks";
+import { getTokenStore } from "@/lib/token-store";
+
+import push from "../scripts/fixtures/github/push.json";
+import { stubProviderEnv } from "./support/env";
+import { TestSession } from "./support/session";
+
+// Organizations of the account over two pages, without calling GitHub
+vi.mock("@/lib/github-api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/github-api")>()),
+  listOrganizations: async (_token: string, { page = 1 } = {}) => ({
+    data: [{ id: 9000 + page, login: `analytical-${page}` }],
+    pagination: { page, next: page < 2 ? page + 1 : undefined },
+  }),
+}));
+
+const WEBHOOK_SECRET = "test-webhook-secret";
+
+/**
+ * Deliver the push fixture, signed like GitHub signs deliveries
+ */
+function deliver(secret = WEBHOOK_SECRET) {
+  const body = JSON.stringify(push.payload);
+  const signature = createHmac("sha256", secret).update(body).digest("hex");
+
+  return new TestSession().request(receive, "/api/webhooks/github", {
+    method: "POST",
+    body,
+    headers: {
+      "x-github-event": push.event,
+      "x-github-delivery": randomUUID(),
+      "x-hub-signature-256": `sha256=${signature}`,
+    },
+  });
+}
+
+/**
+ * A session connected to the fixture's sender through a GitHub provider
+ */
+async function connect(provider: "github" | "github-app") {
+  const session = new TestSession();
+  const sessionId = session.signIn();
+  await getTokenStore().save(sessionId, provider, "1001", {
+    accessToken: "token",
+  });
+  await linkGitHubAccount(sessionId, provider, "1001", "token");
+  return session;
+}
+
+async function disconnectAccount(
+  session: TestSession,
+  provider: "github" | "github-app"
+) {
+  const response = await session.request(disconnect, "/api/disconnect", {
+    method: "POST",
+    body: { provider, accountId: "1001" },
+  });
+  expect(response.status).toBe(200);
+}
+
+// Only the GitHub App is enabled
+beforeAll(() => {
+  stubProviderEnv(["github-app"], { GITHUB_WEBHOOK_SECRET: WEBHOOK_SECRET });
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("GitHub webhooks", () => {
+  it("accepts deliveries with only the GitHub App enabled", async () => {
+    const response = await deliver();
+
+    expect(response.status).toBe(202);
+  });
+
+  it("rejects deliveries signed with another secret", async () => {
+    const response = await deliver("other-secret");
+
+    expect(response.status).toBe(401);
+  });
+
+  it("answers 503 without a webhook secret", async () => {
+    vi.stubEnv("GITHUB_WEBHOOK_SECRET", "");
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+    try {
+      expect((await deliver()).status).toBe(503);
+    } finally {
+      vi.stubEnv("GITHUB_WEBHOOK_SECRET", WEBHOOK_SECRET);
+    }
+  });
+
+  it("links organizations from every page", async () => {
+    const session = await connect("github-app");
+
+    const [link] = await getWebhookStore().getLinks();
+    expect(link.organizations).toEqual([
+      { id: "9001", login: "analytical-1" },
+      { id: "9002", login: "analytical-2" },
+    ]);
+    await disconnectAccount(session, "github-app");
+  });
+
+  it("lists deliveries for a GitHub App connection", async () => {
+    const session = await connect("github-app");
+    await deliver();
+
+    const response = await session.request(
+      listDeliveries,
+      "/api/integrations/github/webhooks"
+    );
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    expect(data[0]).toMatchObject({ event: "push", accountIds: ["1001"] });
+
+    // The OAuth App isn't enabled
+    const oauthApp = await session.request(
+      listDeliveries,
+      "/api/integrations/github/webhooks?provider=github"
+    );
+    expect(oauthApp.status).toBe(400);
+    await disconnectAccount(session, "github-app");
+  });
+
+  it("stops matching deliveries once the last connection is disconnected", async () => {
+    const first = await connect("github-app");
+    const second = await connect("github-app");
+    expect(await (await deliver()).json()).toMatchObject({ accounts: 1 });
+
+    await disconnectAccount(first, "github-app");
+    expect(await (await deliver()).json()).toMatchObject({ accounts: 1 });
+
+    await disconnectAccount(second, "github-app");
+    expect(await (await deliver()).json()).toMatchObject({ accounts: 0 });
+    expect(await getWebhookStore().getLinks()).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+import { getAuthorizationServer } from "@/lib/oauth-config";
+import {
+  clearDiscoveryCache,
+  discoverAuthorizationServer,
+} from "@/lib/oauth-discovery";
+
+import { stubProviderEnv } from "./support/env";
+import { FixtureServer } from "./support/fixture-server";
+
+// Stand-in for an issuer's metadata server
+const issuerServer = new FixtureServer();
+const WELL_KNOWN = "/issuer/.well-known/openid-configuration";
+
+function issuer() {
+  return issuerServer.url("/issuer");
+}
+
+function metadata() {
+  return {
+    issuer: issuer(),
+    authorization_endpoint: issuerServer.url("/issuer/authorize"),
+    token_endpoint: issuerServer.url("/issuer/token"),
+    userinfo_endpoint: issuerServer.url("/issuer/userinfo"),
+    jwks_uri: issuerServer.url("/issuer/jwks"),
+  };
+}
+
+function discoveryRequests() {
+  return issuerServer.requests.filter(({ path }) => path === WELL_KNOWN);
+}
+
+beforeAll(async () => {
+  await issuerServer.start();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await issuerServer.stop();
+});
+
+beforeEach(() => {
+  clearDiscoveryCache();
+  issuerServer.reset();
+  issuerServer.route(WELL_KNOWN, { body: metadata() });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// MARK: Caching
+
+describe("discoverAuthorizationServer", () => {
+  it("reuses metadata within the TTL", async () => {
+    const first = await discoverAuthorizationServer(issuer());
+    const second = await discoverAuthorizationServer(issuer());
+
+    expect(second).toEqual(first);
+    expect(first.token_endpoint).toBe(metadata().token_endpoint);
+    expect(discoveryRequests()).toHaveLength(1);
+  });
+
+  it("fetches metadata again once the TTL has passed", async () => {
+    vi.stubEnv("OAUTH_DISCOVERY_TTL_SECONDS", "60");
+    vi.useFakeTimers({ toFake: ["Date"] });
+
+    await discoverAuthorizationServer(issuer());
+    vi.advanceTimersByTime(59_000);
+    await discoverAuthorizationServer(issuer());
+    expect(discoveryRequests()).toHaveLength(1);
+
+    vi.advanceTimersByTime(2_000);
+    await discoverAuthorizationServer(issuer());
+    expect(discoveryRequests()).toHaveLength(2);
+  });
+
+  it("does not cache failures", async () => {
+    issuerServer.route(WELL_KNOWN, {
+      status: 500,
+      body: { error: "unavailable" },
+    });
+    await expect(discoverAuthorizationServer(issuer())).rejects.toThrow();
+
+    issuerServer.route(WELL_KNOWN, { body: metadata() });
+    const discovered = await discoverAuthorizationServer(issuer());
+
+    expect(discovered.issuer).toBe(issuer());
+    expect(discoveryRequests()).toHaveLength(2);
+  });
+
+  it("rejects metadata for another issuer", async () => {
+    issuerServer.route(WELL_KNOWN, {
+      body: { ...metadata(), issuer: "https://attacker.example.com" },
+    });
+
+    await expect(discoverAuthorizationServer(issuer())).rejects.toThrow();
+  });
+});
+
+// MARK: Overrides
+
+describe("getAuthorizationServer", () => {
+  beforeAll(() => {
+    stubProviderEnv(["google"], { GOOGLE_OAUTH_ISSUER: issuer() });
+  });
+
+  it("prefers *_OAUTH_*_ENDPOINT values over discovered metadata", async () => {
+    const server = await getAuthorizationServer("google");
+
+    expect(server).toMatchObject({
+      issuer: issuer(),
+      authorization_endpoint: "https://google.example.com/authorize",
+      token_endpoint: "https://google.example.com/token",
+      // Not overridden
+      userinfo_endpoint: metadata().userinfo_endpoint,
+      jwks_uri: metadata().jwks_uri,
+    });
+    expect(discoveryRequests()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,212 @@
+import type { Server } from "node:http";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { POST as disconnect } from "@/app/api/disconnect/route";
+import { GET as authorize } from "@/app/api/oauth/[provider]/authorize/route";
+import { GET as callback } from "@/app/api/oauth/[provider]/callback/route";
+import { POST as makeDefault } from "@/app/api/oauth/[provider]/default/route";
+import { POST as refresh } from "@/app/api/oauth/[provider]/refresh/route";
+import { GET as userinfo } from "@/app/api/oauth/[provider]/userinfo/route";
+import { OAuthClient } from "@/lib/oauth-client";
+import type { Provider } from "@/lib/oauth-config";
+
+import {
+  startMockOAuthServer,
+  stopMockOAuthServer,
+} from "./support/mock-oauth-server";
+import { TestSession } from "./support/session";
+
+let server: Server;
+
+beforeAll(async () => {
+  // Both the app and the mock server log every request
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  server = await startMockOAuthServer();
+});
+
+afterAll(async () => {
+  await stopMockOAuthServer(server);
+});
+
+/**
+ * Authorize, let the mock server answer the consent page, and return the
+ * callback's redirect. `decision` is a mock user ID or "deny".
+ */
+async function connect(
+  session: TestSession,
+  provider: Provider,
+  { decision, query = "" }: { decision?: string; query?: string } = {}
+): Promise<URL> {
+  const authorizeResponse = await session.request(
+    authorize,
+    `/api/oauth/${provider}/authorize${query}`,
+    { params: { provider } }
+  );
+  expect(authorizeResponse.status).toBe(307);
+
+  const authorizationUrl = new URL(authorizeResponse.headers.get("location")!);
+  if (decision) {
+    authorizationUrl.searchParams.set("mock_decision", decision);
+  }
+  const consent = await fetch(authorizationUrl, { redirect: "manual" });
+  expect(consent.status).toBe(302);
+
+  const callbackResponse = await session.request(
+    callback,
+    consent.headers.get("location")!,
+    { params: { provider } }
+  );
+  expect(callbackResponse.status).toBe(307);
+  return new URL(callbackResponse.headers.get("location")!);
+}
+
+function getUserInfo(session: TestSession, provider: Provider, query = "") {
+  return session.request(userinfo, `/api/oauth/${provider}/userinfo${query}`, {
+    params: { provider },
+  });
+}
+
+describe.each([
+  { provider: "supabase", refreshes: true, name: "Ada Lovelace" },
+  { provider: "github", refreshes: false, name: "Ada Lovelace" },
+  { provider: "github-app", refreshes: true, name: "Ada Lovelace" },
+  { provider: "clerk", refreshes: true, name: "Ada Lovelace" },
+  { provider: "google", refreshes: true, name: "Ada Lovelace" },
+  // auth.test only knows the user's handle
+  { provider: "slack", refreshes: false, name: "ada" },
+  { provider: "facebook", refreshes: false, name: "Ada Lovelace" },
+] satisfies { provider: Provider; refreshes: boolean; name: string }[])(
+  "$provider",
+  ({ provider, refreshes, name }) => {
+    const session = new TestSession();
+
+    it("connects through authorize and callback", async () => {
+      const redirect = await connect(session, provider);
+      expect(redirect.pathname).toBe(`/oauth/${provider}/success`);
+      expect(session.cookies.has("oauth_session")).toBe(true);
+      // Temporary authorization cookies are cleared
+      expect(
+        Array.from(session.cookies.keys()).filter((name) =>
+          name.endsWith("oauth_state")
+        )
+      ).toEqual([]);
+    });
+
+    it("returns the connected user's info", async () => {
+      const response = await getUserInfo(session, provider);
+      expect(response.status).toBe(200);
+      const user = await response.json();
+      expect(user.id).toBeTruthy();
+      expect(user.name).toBe(name);
+    });
+
+    it(
+      refreshes
+        ? "refreshes the access token"
+        : "has no refresh token to refresh",
+      async () => {
+        const response = await session.request(
+          refresh,
+          `/api/oauth/${provider}/refresh`,
+          { method: "POST", params: { provider } }
+        );
+        expect(response.status).toBe(refreshes ? 200 : 401);
+
+        // The connection keeps working either way
+        expect((await getUserInfo(session, provider)).status).toBe(200);
+      }
+    );
+
+    it("disconnects", async () => {
+      const response = await session.request(disconnect, "/api/disconnect", {
+        method: "POST",
+        body: { provider },
+      });
+      expect(response.status).toBe(200);
+      expect((await getUserInfo(session, provider)).status).toBe(401);
+    });
+  }
+);
+
+describe("multiple accounts", () => {
+  it("connects another account and addresses it by ID", async () => {
+    const session = new TestSession();
+    await connect(session, "supabase");
+    const redirect = await connect(session, "supabase", {
+      decision: "1002",
+      query: "?add_account=1",
+    });
+    expect(redirect.pathname).toBe("/oauth/supabase/success");
+
+    // The first account stays the default
+    const first = await getUserInfo(session, "supabase");
+    expect((await first.json()).name).toBe("Ada Lovelace");
+
+    const second = await getUserInfo(session, "supabase", "?account=1002");
+    expect((await second.json()).name).toBe("Grace Hopper");
+  });
+});
+
+describe("errors", () => {
+  it("reports a denied consent on the error page", async () => {
+    const redirect = await connect(new TestSession(), "supabase", {
+      decision: "deny",
+    });
+    expect(redirect.pathname).toBe("/oauth/supabase/error");
+    expect(redirect.searchParams.get("error")).toBe("access_denied");
+  });
+
+  it("rejects a callback without the state cookie", async () => {
+    const session = new TestSession();
+    const response = await session.request(
+      callback,
+      "/api/oauth/supabase/callback?code=code&state=state",
+      { params: { provider: "supabase" } }
+    );
+    const redirect = new URL(response.headers.get("location")!);
+    expect(redirect.pathname).toBe("/oauth/supabase/error");
+    expect(redirect.searchParams.get("error")).toBe("invalid_request");
+  });
+
+  it("rejects a disconnect without a body", async () => {
+    const response = await new TestSession().request(
+      disconnect,
+      "/api/disconnect",
+      { method: "POST", body: "not json" }
+    );
+    expect(response.status).toBe(400);
+  });
+
+  it("stores nothing when the account can't be identified", async () => {
+    const session = new TestSession();
+    vi.spyOn(OAuthClient.prototype, "getUserInfo").mockRejectedValueOnce(
+      new Error("profile unavailable")
+    );
+    const error = vi.spyOn(console, "error").mockImplementationOnce(() => {});
+
+    const redirect = await connect(session, "supabase");
+    expect(redirect.pathname).toBe("/oauth/supabase/error");
+    expect(redirect.searchParams.get("error")).toBe("server_error");
+    expect(error).toHaveBeenCalled();
+    expect((await getUserInfo(session, "supabase")).status).toBe(401);
+  });
+
+  it("rejects a default account request without a JSON object body", async () => {
+    for (const body of ["not json", "null", "[]"]) {
+      const response = await new TestSession().request(
+        makeDefault,
+        "/api/oauth/supabase/default",
+        { method: "POST", params: { provider: "supabase" }, body }
+      );
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("rejects unknown providers", async () => {
+    const response = await getUserInfo(
+      new TestSession(),
+      "unknown" as Provider
+    );
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,341 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+import { getProviderDefinition, type Provider } from "@/lib/oauth-config";
+import { createProviderFetch } from "@/lib/oauth-quirks";
+import type { ProfileFetcherContext } from "@/lib/providers/types";
+
+import clerkClaims from "./fixtures/providers/clerk/id-token-claims.json";
+import facebookMe from "./fixtures/providers/facebook/me.json";
+import facebookSilhouette from "./fixtures/providers/facebook/me-silhouette.json";
+import githubEmails from "./fixtures/providers/github/emails.json";
+import githubUser from "./fixtures/providers/github/user.json";
+import googleClaims from "./fixtures/providers/google/id-token-claims.json";
+import slackAuthTest from "./fixtures/providers/slack/auth-test.json";
+import slackMissingScope from "./fixtures/providers/slack/missing-scope.json";
+import slackIdentity from "./fixtures/providers/slack/users-identity.json";
+import supabaseUserInfo from "./fixtures/providers/supabase/userinfo.json";
+import { stubProviderEnv } from "./support/env";
+import { FixtureServer } from "./support/fixture-server";
+
+const api = new FixtureServer();
+
+beforeAll(() => api.start());
+afterAll(() => api.stop());
+beforeEach(() => api.reset());
+
+function profileContext(): ProfileFetcherContext {
+  return {
+    accessToken: "access-token",
+    apiUrl: (path) => api.url(path),
+    fetch,
+  };
+}
+
+/**
+ * Fetch the profile like OAuthClient does and map it
+ */
+async function getProfile(provider: Provider) {
+  const { fetchProfile, mapUserInfo } = getProviderDefinition(provider);
+  const data = await fetchProfile!(profileContext());
+  return mapUserInfo!(data);
+}
+
+function mapClaims(provider: Provider, claims: Record<string, unknown>) {
+  return getProviderDefinition(provider).mapUserInfo!(claims);
+}
+
+// MARK: Profiles
+
+describe.each(["github", "github-app"] satisfies Provider[])(
+  "%s profile",
+  (provider) => {
+    it("uses the primary verified email", async () => {
+      api
+        .route("/user", { body: githubUser })
+        .route("/user/emails", { body: githubEmails });
+
+      expect(await getProfile(provider)).toEqual({
+        id: "583231",
+        email: "mona@example.com",
+        email_verified: true,
+        name: "The Octocat",
+        username: "octocat",
+        avatar_url: "https://avatars.githubusercontent.com/u/583231?v=4",
+        profile_url: "https://github.com/octocat",
+      });
+      expect(api.requests[0].headers.authorization).toBe("Bearer access-token");
+      expect(api.requests[0].headers.accept).toBe(
+        "application/vnd.github+json"
+      );
+    });
+
+    it("falls back to the unverified public email without user:email", async () => {
+      api.route("/user", { body: githubUser }).route("/user/emails", {
+        status: 403,
+        body: { message: "Resource not accessible by integration" },
+      });
+
+      const profile = await getProfile(provider);
+      expect(profile.email).toBe("octocat@github.com");
+      expect(profile.email_verified).toBeUndefined();
+    });
+
+    it("fails without the user", async () => {
+      api.route("/user", {
+        status: 401,
+        body: { message: "Bad credentials" },
+      });
+
+      await expect(getProfile(provider)).rejects.toThrow("401");
+    });
+  }
+);
+
+describe("facebook profile", () => {
+  it("requests the profile fields and maps them", async () => {
+    api.route("/me", { body: facebookMe });
+
+    expect(await getProfile("facebook")).toEqual({
+      id: "10158412345678901",
+      email: "ada@example.com",
+      name: "Ada Lovelace",
+      avatar_url: facebookMe.picture.data.url,
+      profile_url: facebookMe.link,
+    });
+    expect(new URLSearchParams(api.requests[0].search).get("fields")).toBe(
+      "id,name,email,link,picture.type(large)"
+    );
+  });
+
+  it("drops the default silhouette picture", async () => {
+    api.route("/me", { body: facebookSilhouette });
+
+    const profile = await getProfile("facebook");
+    expect(profile.avatar_url).toBeUndefined();
+    expect(profile.email).toBeUndefined();
+  });
+});
+
+describe("slack profile", () => {
+  it("uses users.identity for Sign in with Slack tokens", async () => {
+    api.route("/users.identity", { body: slackIdentity });
+
+    expect(await getProfile("slack")).toEqual({
+      id: "U0456EFGH",
+      email: "ada@acme.com",
+      name: "Ada Lovelace",
+      avatar_url: slackIdentity.user.image_192,
+      organization: { id: "T0123ABCD", name: "Acme" },
+    });
+  });
+
+  it("falls back to auth.test when users.identity isn't allowed", async () => {
+    api
+      .route("/users.identity", { body: slackMissingScope })
+      .route("/auth.test", { body: slackAuthTest });
+
+    expect(await getProfile("slack")).toEqual({
+      id: "U0456EFGH",
+      name: "ada",
+      username: "ada",
+      profile_url: "https://acme.slack.com/team/U0456EFGH",
+      organization: { id: "T0123ABCD", name: "Acme" },
+    });
+  });
+
+  it("fails on other Slack errors", async () => {
+    api.route("/users.identity", {
+      body: { ok: false, error: "invalid_auth" },
+    });
+
+    await expect(getProfile("slack")).rejects.toThrow("invalid_auth");
+  });
+});
+
+describe("OIDC claims", () => {
+  it("maps Google claims, with the Workspace domain as organization", () => {
+    expect(mapClaims("google", googleClaims)).toEqual({
+      id: "10769150350006150715113082367",
+      email: "ada@example.com",
+      email_verified: true,
+      name: "Ada Lovelace",
+      avatar_url: "https://lh3.googleusercontent.com/a/ACg8ocK",
+      locale: "en-GB",
+      organization: { id: "example.com" },
+    });
+  });
+
+  it("maps Clerk claims, joining the name and parsing string booleans", () => {
+    expect(mapClaims("clerk", clerkClaims)).toEqual({
+      id: "user_2NNEqL2nrIRdJ194ndJqAHwEfxC",
+      email: "ada@example.com",
+      email_verified: true,
+      name: "Ada Lovelace",
+      username: "ada",
+      avatar_url: "https://img.clerk.com/eyJ0eXBlIjoicHJveHkifQ",
+    });
+  });
+
+  it("maps Supabase userinfo", () => {
+    expect(mapClaims("supabase", supabaseUserInfo)).toEqual({
+      id: "8a0b2f4e-3c1d-4b5a-9e6f-7d8c9b0a1e2f",
+      email: "ada@example.com",
+      email_verified: true,
+      name: "Ada Lovelace",
+      username: "ada",
+      avatar_url: "https://avatars.githubusercontent.com/u/1001",
+    });
+  });
+});
+
+// MARK: Quirks
+
+describe("quirks", () => {
+  it("sends plain Basic credentials to Supabase", async () => {
+    api.route("/token", { body: { access_token: "token" } });
+    const form = (value: string) =>
+      encodeURIComponent(value).replace(/%20/g, "+");
+
+    await createProviderFetch("supabase", "token")(api.url("/token"), {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`${form("my client")}:${form("p@ss word")}`)}`,
+      },
+    });
+    expect(api.requests[0].headers.authorization).toBe(
+      `Basic ${btoa("my client:p@ss word")}`
+    );
+  });
+
+  it("accepts Supabase's 201 token responses", async () => {
+    api.route("/token", { status: 201, body: { access_token: "token" } });
+
+    const token = await createProviderFetch(
+      "supabase",
+      "token"
+    )(api.url("/token"));
+    expect(token.status).toBe(200);
+
+    // Only token endpoint responses are rewritten
+    const other = await createProviderFetch(
+      "supabase",
+      "userinfo"
+    )(api.url("/token"));
+    expect(other.status).toBe(201);
+  });
+
+  it("turns GitHub's 200 error responses into 400s", async () => {
+    api.route("/error", {
+      body: {
+        error: "bad_verification_code",
+        error_description: "The code passed is incorrect or expired.",
+      },
+    });
+    api.route("/token", { body: { access_token: "token" } });
+
+    const error = await createProviderFetch(
+      "github",
+      "token"
+    )(api.url("/error"));
+    expect(error.status).toBe(400);
+    expect((await error.json()).error).toBe("bad_verification_code");
+
+    const token = await createProviderFetch(
+      "github",
+      "refresh"
+    )(api.url("/token"));
+    expect(token.status).toBe(200);
+  });
+
+  it("unwraps Slack's ok envelope and bot token type", async () => {
+    api.route("/error", { body: { ok: false, error: "invalid_code" } });
+    api.route("/token", {
+      body: { ok: true, access_token: "xoxb-token", token_type: "bot" },
+    });
+
+    const error = await createProviderFetch(
+      "slack",
+      "token"
+    )(api.url("/error"));
+    expect(error.status).toBe(400);
+    expect(await error.json()).toEqual({ error: "invalid_code" });
+
+    const token = await createProviderFetch(
+      "slack",
+      "token"
+    )(api.url("/token"));
+    expect((await token.json()).token_type).toBe("bearer");
+  });
+
+  it("leaves providers without quirks alone", async () => {
+    api.route("/token", { status: 201, body: { error: "invalid_grant" } });
+
+    const response = await createProviderFetch(
+      "google",
+      "token"
+    )(api.url("/token"));
+    expect(response.status).toBe(201);
+  });
+});
+
+// MARK: Environment
+
+describe("environment", () => {
+  it("reports unknown providers in OAUTH_PROVIDERS", async () => {
+    stubProviderEnv(["github"]);
+    vi.stubEnv("OAUTH_PROVIDERS", "github, gitlab");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    // The report is cached per process, so validate with a fresh module
+    vi.resetModules();
+    try {
+      const { validateProviderEnvironment } =
+        await import("@/lib/oauth-config");
+      const report = validateProviderEnvironment();
+
+      expect(report.enabled).toEqual(["github"]);
+      expect(report.issues).toEqual([
+        expect.objectContaining({
+          provider: "gitlab",
+          variable: "OAUTH_PROVIDERS",
+        }),
+      ]);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("[gitlab] OAUTH_PROVIDERS")
+      );
+    } finally {
+      warn.mockRestore();
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("warns about missing GitHub App credentials", async () => {
+    stubProviderEnv(["github-app"], { GITHUB_WEBHOOK_SECRET: "secret" });
+    vi.stubEnv("GITHUB_APP_ID", "");
+    vi.stubEnv("GITHUB_APP_PRIVATE_KEY", "");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.resetModules();
+    try {
+      const { validateProviderEnvironment } =
+        await import("@/lib/oauth-config");
+      const report = validateProviderEnvironment();
+
+      // The provider stays enabled, only the installation routes fail
+      expect(report.enabled).toEqual(["github-app"]);
+      expect(report.warnings.map(({ variable }) => variable)).toEqual([
+        "GITHUB_APP_ID",
+        "GITHUB_APP_PRIVATE_KEY",
+      ]);
+    } finally {
+      warn.mockRestore();
+      vi.unstubAllEnvs();
+    }
+  });
+});
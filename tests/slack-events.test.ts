@@ -0,0 +1,266 @@
+import { createHmac } from "node:crypto";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+import { POST } from "@/app/api/slack/events/route";
+import { onSlackEvent, onSlackInteraction } from "@/lib/slack-events";
+import { getInstallationStore } from "@/lib/slack-installations";
+
+import appMention from "../scripts/fixtures/slack/app-mention.json";
+import blockActions from "../scripts/fixtures/slack/block-actions.json";
+import urlVerification from "../scripts/fixtures/slack/url-verification.json";
+import { settleAfter } from "./support/after";
+import { stubProviderEnv } from "./support/env";
+import { TestSession } from "./support/session";
+
+const SIGNING_SECRET = "test-signing-secret";
+
+const mentions = vi.fn();
+const actions = vi.fn();
+onSlackEvent("app_mention", mentions);
+onSlackInteraction("block_actions", actions);
+
+/**
+ * Post a body to the route, signed like Slack signs requests
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ */
+async function post(
+  body: string,
+  {
+    contentType = "application/json",
+    timestamp = Math.floor(Date.now() / 1000),
+    secret = SIGNING_SECRET,
+    headers = {},
+  }: {
+    contentType?: string;
+    timestamp?: number;
+    secret?: string;
+    headers?: Record<string, string>;
+  } = {}
+) {
+  const hmac = createHmac("sha256", secret);
+  hmac.update(`v0:${timestamp}:${body}`);
+
+  const response = await new TestSession().request(POST, "/api/slack/events", {
+    method: "POST",
+    body,
+    headers: {
+      "content-type": contentType,
+      "x-slack-request-timestamp": String(timestamp),
+      "x-slack-signature": `v0=${hmac.digest("hex")}`,
+      ...headers,
+    },
+  });
+  await settleAfter();
+  return response;
+}
+
+let eventCount = 0;
+
+/**
+ * The app_mention fixture with a fresh event_id
+ */
+function mentionEvent(teamId = "T0MOCK") {
+  return JSON.stringify({
+    ...appMention,
+    team_id: teamId,
+    event_id: `${appMention.event_id}${++eventCount}`,
+  });
+}
+
+beforeAll(() => {
+  stubProviderEnv(["slack"], { SLACK_SIGNING_SECRET: SIGNING_SECRET });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+beforeEach(async () => {
+  mentions.mockClear();
+  actions.mockClear();
+  await getInstallationStore().storeInstallation({
+    team: { id: "T0MOCK", name: "Mock Workspace" },
+    enterprise: undefined,
+    user: { id: "U1001", token: undefined, scopes: undefined },
+    bot: {
+      id: "B0MOCK",
+      userId: "U0MOCKBOT",
+      token: "xoxb-token",
+      scopes: ["channels:read"],
+    },
+    isEnterpriseInstall: false,
+    authVersion: "v2",
+  });
+});
+
+// MARK: Signatures
+
+describe("signatures", () => {
+  it("rejects requests signed with another secret", async () => {
+    const response = await post(mentionEvent(), { secret: "other-secret" });
+
+    expect(response.status).toBe(401);
+    expect(mentions).not.toHaveBeenCalled();
+  });
+
+  it("rejects requests older than five minutes", async () => {
+    const response = await post(mentionEvent(), {
+      timestamp: Math.floor(Date.now() / 1000) - 6 * 60,
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("answers 503 without a signing secret", async () => {
+    vi.stubEnv("SLACK_SIGNING_SECRET", "");
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+    try {
+      const response = await post(mentionEvent());
+
+      expect(response.status).toBe(503);
+      expect(mentions).not.toHaveBeenCalled();
+    } finally {
+      vi.stubEnv("SLACK_SIGNING_SECRET", SIGNING_SECRET);
+    }
+  });
+});
+
+// MARK: Events
+
+describe("events", () => {
+  it("answers url_verification challenges", async () => {
+    const response = await post(JSON.stringify(urlVerification));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      challenge: urlVerification.challenge,
+    });
+  });
+
+  it("rejects bodies that are not JSON objects", async () => {
+    for (const body of ["null", "[]", '"event_callback"']) {
+      const response = await post(body);
+
+      expect(response.status).toBe(400);
+    }
+    expect(mentions).not.toHaveBeenCalled();
+  });
+
+  it("dispatches events with the workspace's installation", async () => {
+    const response = await post(mentionEvent());
+
+    expect(response.status).toBe(200);
+    expect(mentions).toHaveBeenCalledOnce();
+    const [event, context] = mentions.mock.calls[0];
+    expect(event).toEqual(appMention.event);
+    expect(context.workspace).toEqual({
+      id: "T0MOCK",
+      name: "Mock Workspace",
+    });
+    expect(context.installation.bot.token).toBe("xoxb-token");
+    expect(context.client).toBeDefined();
+  });
+
+  it("drops events of workspaces without an installation", async () => {
+    vi.spyOn(console, "warn").mockImplementationOnce(() => {});
+    const response = await post(mentionEvent("T0OTHER"));
+
+    expect(response.status).toBe(200);
+    expect(mentions).not.toHaveBeenCalled();
+  });
+
+  it("deletes the installation when the app is uninstalled", async () => {
+    await post(
+      JSON.stringify({
+        ...JSON.parse(mentionEvent()),
+        event: { type: "app_uninstalled" },
+      })
+    );
+
+    expect(
+      await getInstallationStore().getInstallation("T0MOCK")
+    ).toBeUndefined();
+  });
+});
+
+// MARK: Retries
+
+describe("retries", () => {
+  it("acknowledges redeliveries of a received event without handling them", async () => {
+    const body = mentionEvent();
+    await post(body);
+
+    const retry = await post(body, {
+      headers: {
+        "x-slack-retry-num": "1",
+        "x-slack-retry-reason": "http_error",
+      },
+    });
+    const duplicate = await post(body);
+
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get("X-Slack-No-Retry")).toBe("1");
+    expect(duplicate.headers.get("X-Slack-No-Retry")).toBe("1");
+    expect(mentions).toHaveBeenCalledOnce();
+  });
+
+  it("skips retries after a timeout, whose delivery was received", async () => {
+    const response = await post(mentionEvent(), {
+      headers: {
+        "x-slack-retry-num": "1",
+        "x-slack-retry-reason": "http_timeout",
+      },
+    });
+
+    expect(response.headers.get("X-Slack-No-Retry")).toBe("1");
+    expect(mentions).not.toHaveBeenCalled();
+  });
+
+  it("handles retries of deliveries that never arrived", async () => {
+    const response = await post(mentionEvent(), {
+      headers: {
+        "x-slack-retry-num": "2",
+        "x-slack-retry-reason": "connection_failed",
+      },
+    });
+
+    expect(response.headers.get("X-Slack-No-Retry")).toBeNull();
+    expect(mentions).toHaveBeenCalledOnce();
+  });
+});
+
+// MARK: Interactivity
+
+describe("interactivity", () => {
+  it("dispatches form-encoded interactive payloads", async () => {
+    const form = new URLSearchParams({ payload: JSON.stringify(blockActions) });
+    const response = await post(form.toString(), {
+      contentType: "application/x-www-form-urlencoded",
+    });
+
+    expect(response.status).toBe(200);
+    expect(actions).toHaveBeenCalledOnce();
+    expect(actions.mock.calls[0][0].actions[0].action_id).toBe("approve");
+  });
+
+  it("rejects form posts without a payload", async () => {
+    for (const payload of ["not-json", "null"]) {
+      const response = await post(new URLSearchParams({ payload }).toString(), {
+        contentType: "application/x-www-form-urlencoded",
+      });
+
+      expect(response.status).toBe(400);
+    }
+    expect(actions).not.toHaveBeenCalled();
+  });
+});
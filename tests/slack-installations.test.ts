@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { OAuthClient } from "@/lib/oauth-client";
+import { SlackApiError } from "@/lib/slack-api";
+import {
+  getConnectedInstallation,
+  getInstallationStore,
+  type Installation,
+} from "@/lib/slack-installations";
+import { getTokenStore } from "@/lib/token-store";
+import { errorResponse } from "@/app/api/integrations/slack/response";
+
+import { TestSession } from "./support/session";
+
+const WORKSPACE = { id: "T0123ABCD", name: "Acme" };
+
+function installation(bot: Partial<Installation["bot"]> = {}): Installation {
+  return {
+    team: WORKSPACE,
+    enterprise: undefined,
+    user: { id: "U0456EFGH", token: undefined, scopes: undefined },
+    bot: {
+      id: "B0123",
+      userId: "U0BOT",
+      token: "xoxb-token",
+      scopes: ["channels:read"],
+      ...bot,
+    },
+    isEnterpriseInstall: false,
+    authVersion: "v2",
+  };
+}
+
+describe("Slack bot token rotation", () => {
+  let session: TestSession;
+
+  beforeEach(async () => {
+    session = new TestSession();
+    await getTokenStore().save(session.signIn(), "slack", "U0456EFGH", {
+      accessToken: "xoxp-token",
+      profile: { organization: WORKSPACE },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps bot tokens that haven't expired", async () => {
+    const refresh = vi.spyOn(OAuthClient, "refreshAccessToken");
+    await getInstallationStore().storeInstallation(
+      installation({
+        refreshToken: "xoxe-1-refresh",
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      })
+    );
+
+    const { bot } = (await session.run(() =>
+      getConnectedInstallation(WORKSPACE.id)
+    ))!;
+    expect(bot?.token).toBe("xoxb-token");
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it("refreshes expiring bot tokens once and stores them", async () => {
+    const refresh = vi
+      .spyOn(OAuthClient, "refreshAccessToken")
+      .mockResolvedValue({
+        access_token: "xoxe.xoxb-rotated",
+        refresh_token: "xoxe-1-rotated",
+        expires_in: 43200,
+        token_type: "bearer",
+      });
+    await getInstallationStore().storeInstallation(
+      installation({
+        refreshToken: "xoxe-1-refresh",
+        expiresAt: Math.floor(Date.now() / 1000) + 30,
+      })
+    );
+
+    const [first, second] = await session.run(() =>
+      Promise.all([
+        getConnectedInstallation(WORKSPACE.id),
+        getConnectedInstallation(WORKSPACE.id),
+      ])
+    );
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(refresh).toHaveBeenCalledWith("slack", "xoxe-1-refresh");
+    expect(first?.bot?.token).toBe("xoxe.xoxb-rotated");
+    expect(second?.bot?.token).toBe("xoxe.xoxb-rotated");
+
+    const stored = await getInstallationStore().getInstallation(WORKSPACE.id);
+    expect(stored?.bot).toMatchObject({
+      token: "xoxe.xoxb-rotated",
+      refreshToken: "xoxe-1-rotated",
+    });
+    expect(stored?.bot?.expiresAt).toBeGreaterThan(Date.now() / 1000 + 3600);
+  });
+});
+
+describe("Slack errorResponse", () => {
+  it("answers missing_scope like other insufficient scopes", async () => {
+    const response = errorResponse(
+      new SlackApiError("missing_scope", { needed: "channels:read" })
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get("WWW-Authenticate")).toBe(
+      'Bearer error="insufficient_scope", scope="channels:read"'
+    );
+    expect(await response.json()).toEqual({
+      error: "insufficient_scope",
+      provider: "slack",
+      account: null,
+      required_scopes: ["channels:read"],
+      missing_scopes: ["channels:read"],
+      upgrade_url: "/api/oauth/slack/authorize?scope=channels%3Aread",
+    });
+  });
+
+  it("asks for a reinstall when a rotated token couldn't be refreshed", async () => {
+    const response = errorResponse(new SlackApiError("token_expired"));
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error).toBe("reinstall_required");
+  });
+});
@@ -0,0 +1,20 @@
+// Tasks scheduled with `after()` by the route handlers under test
+const pending: Promise<unknown>[] = [];
+
+/**
+ * Stand-in for `after()` from next/server, which needs Next's request scope
+ */
+export function after(task: Promise<unknown> | (() => unknown)) {
+  pending.push(
+    Promise.resolve().then(() => (typeof task === "function" ? task() : task))
+  );
+}
+
+/**
+ * Wait for the scheduled tasks, as Next does once the response is sent
+ */
+export async function settleAfter() {
+  while (pending.length > 0) {
+    await Promise.all(pending.splice(0));
+  }
+}
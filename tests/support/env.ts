@@ -0,0 +1,35 @@
+import { vi } from "vitest";
+
+import { getProviderDefinition, type Provider } from "@/lib/oauth-config";
+
+/**
+ * Enable exactly `providers` (OAUTH_PROVIDERS), with endpoints that are
+ * never called unless `env` overrides them, e.g. `GITHUB_API_URL` pointing
+ * at a FixtureServer. Call before the first request of the test file, since
+ * the provider configuration is validated once. Undo with
+ * `vi.unstubAllEnvs()`.
+ */
+export function stubProviderEnv(
+  providers: Provider[],
+  env: Record<string, string> = {}
+) {
+  vi.stubEnv("OAUTH_PROVIDERS", providers.join(","));
+
+  for (const provider of providers) {
+    const prefix = getProviderDefinition(provider).envPrefix;
+    const origin = `https://${provider}.example.com`;
+    vi.stubEnv(`${prefix}_CLIENT_ID`, `${provider}-client`);
+    vi.stubEnv(`${prefix}_CLIENT_SECRET`, `${provider}-secret`);
+    vi.stubEnv(
+      `${prefix}_REDIRECT_URI`,
+      `http://localhost:3000/api/oauth/${provider}/callback`
+    );
+    vi.stubEnv(`${prefix}_OAUTH_ISSUER`, origin);
+    vi.stubEnv(`${prefix}_OAUTH_AUTHORIZATION_ENDPOINT`, `${origin}/authorize`);
+    vi.stubEnv(`${prefix}_OAUTH_TOKEN_ENDPOINT`, `${origin}/token`);
+  }
+
+  for (const [name, value] of Object.entries(env)) {
+    vi.stubEnv(name, value);
+  }
+}
@@ -0,0 +1,71 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface FixtureResponse {
+  status?: number;
+  body: unknown;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  search: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP server answering with canned JSON responses by path, standing
+ * in for a provider's API. Records the requests it receives.
+ */
+export class FixtureServer {
+  readonly requests: RecordedRequest[] = [];
+  private routes = new Map<string, FixtureResponse>();
+  private server?: Server;
+
+  route(path: string, response: FixtureResponse): this {
+    this.routes.set(path, response);
+    return this;
+  }
+
+  reset() {
+    this.routes.clear();
+    this.requests.length = 0;
+  }
+
+  url(path = ""): string {
+    const { port } = this.server!.address() as AddressInfo;
+    return `http://127.0.0.1:${port}${path}`;
+  }
+
+  start(): Promise<void> {
+    this.server = createServer(async (req, res) => {
+      const url = new URL(req.url ?? "/", "http://127.0.0.1");
+      let body = "";
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      this.requests.push({
+        method: req.method ?? "GET",
+        path: url.pathname,
+        search: url.search,
+        headers: req.headers,
+        body,
+      });
+
+      const route = this.routes.get(url.pathname);
+      res.writeHead(route?.status ?? (route ? 200 : 404), {
+        "Content-Type": "application/json",
+      });
+      res.end(JSON.stringify(route?.body ?? { error: "not_found" }));
+    });
+    return new Promise((resolve) =>
+      this.server!.listen(0, "127.0.0.1", resolve)
+    );
+  }
+
+  stop(): Promise<void> {
+    this.server?.closeAllConnections();
+    return new Promise((resolve) => this.server?.close(() => resolve()));
+  }
+}
@@ -0,0 +1,118 @@
+import { simulateReadableStream } from "ai";
+import { MockLanguageModelV2 } from "ai/test";
+
+type StreamOptions = Parameters<MockLanguageModelV2["doStream"]>[0];
+
+const MOCK_USAGE = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+function streamText(text: string) {
+  return {
+    stream: simulateReadableStream({
+      chunkDelayInMs: 10,
+      chunks: [
+        { type: "text-start" as const, id: "text" },
+        ...text.split(/(?<= )/).map((delta) => ({
+          type: "text-delta" as const,
+          id: "text",
+          delta,
+        })),
+        { type: "text-end" as const, id: "text" },
+        {
+          type: "finish" as const,
+          finishReason: "stop" as const,
+          usage: MOCK_USAGE,
+        },
+      ],
+    }),
+  };
+}
+
+function streamToolCall(toolName: string) {
+  return {
+    stream: simulateReadableStream({
+      chunkDelayInMs: 10,
+      chunks: [
+        {
+          type: "tool-call" as const,
+          toolCallId: `call_${crypto.randomUUID()}`,
+          toolName,
+          input: "{}",
+        },
+        {
+          type: "finish" as const,
+          finishReason: "tool-calls" as const,
+          usage: MOCK_USAGE,
+        },
+      ],
+    }),
+  };
+}
+
+/**
+ * The tool sharing the most words with the user's message, e.g.
+ * "list my slack channels" -> slack_list_channels
+ */
+function matchTool(text: string, tools: string[]): string | undefined {
+  const words = new Set(text.toLowerCase().match(/[a-z]+/g));
+  let best: { name: string; matched: number; unmatched: number } | undefined;
+  for (const name of tools) {
+    const parts = name.split("_");
+    const matched = parts.filter(
+      (part) => words.has(part) || words.has(`${part}s`)
+    ).length;
+    const unmatched = parts.length - matched;
+    // On ties, prefer the tool with fewer words left unmentioned
+    if (
+      matched >= 2 &&
+      (!best ||
+        matched > best.matched ||
+        (matched === best.matched && unmatched < best.unmatched))
+    ) {
+      best = { name, matched, unmatched };
+    }
+  }
+  return best?.name;
+}
+
+/**
+ * Scripted stand-in for a real model: it calls the tool named by the
+ * user's message with no arguments, then reports what the tool returned
+ */
+export function createMockChatModel() {
+  return new MockLanguageModelV2({
+    provider: "mock",
+    modelId: "mock",
+    doStream: async ({ prompt, tools = [] }: StreamOptions) => {
+      const last = prompt.at(-1);
+
+      if (last?.role === "tool") {
+        const results = last.content.map(({ toolName, output }) => {
+          const value =
+            output.type === "json" || output.type === "error-json"
+              ? JSON.stringify(output.value)
+              : output.type === "content"
+                ? "(content)"
+                : output.value;
+          const label = output.type.startsWith("error") ? "failed" : "returned";
+          return `${toolName} ${label}: ${value.length > 500 ? `${value.slice(0, 500)}…` : value}`;
+        });
+        return streamText(results.join("\n\n"));
+      }
+
+      const text =
+        last?.role === "user"
+          ? last.content.map((part) => (part.type === "text" ? part.text : ""))
+          : [];
+      const names = tools.map(({ name }) => name);
+      const toolName = matchTool(text.join(" "), names);
+      if (toolName) {
+        return streamToolCall(toolName);
+      }
+      return streamText(
+        names.length > 0
+          ? `I'm a mock model. Ask me to run one of: ${names.join(", ")}.`
+          : "I'm a mock model, and no integration tools are available. Connect an account first."
+      );
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import type { Server } from "node:http";
+
+import { APP_URL } from "./session";
+
+// Away from the default 4010, so a running `npm run mock-oauth` doesn't clash
+const MOCK_OAUTH_PORT = 4011;
+
+/**
+ * Start scripts/mock-oauth-server.ts in-process, signing in as the first
+ * mock user, and point every provider's environment at it
+ */
+export async function startMockOAuthServer(): Promise<Server> {
+  process.env.MOCK_OAUTH_PORT = String(MOCK_OAUTH_PORT);
+  process.env.MOCK_OAUTH_AUTO_APPROVE = "true";
+  process.env.APP_URL = APP_URL;
+
+  const { getEnvironment, startMockServer } =
+    await import("../../scripts/mock-oauth-server");
+  for (const line of getEnvironment()) {
+    const match = line.match(/^([A-Z0-9_]+)=(.*)$/);
+    if (match) {
+      process.env[match[1]] = match[2].replace(/^"(.*)"$/, "$1");
+    }
+  }
+  return startMockServer();
+}
+
+export function stopMockOAuthServer(server: Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
@@ -0,0 +1,106 @@
+import { NextRequest } from "next/server";
+
+import { createSessionId, setSessionCookie } from "@/lib/session";
+
+export const APP_URL = "http://localhost:3000";
+
+// Cookies of the session whose request is being handled, read by the
+// mocked `cookies()` from next/headers
+let currentCookies = new Map<string, string>();
+
+export function requestCookies() {
+  const cookies = currentCookies;
+  return {
+    get: (name: string) =>
+      cookies.has(name) ? { name, value: cookies.get(name)! } : undefined,
+    getAll: () => Array.from(cookies, ([name, value]) => ({ name, value })),
+    has: (name: string) => cookies.has(name),
+  };
+}
+
+type RouteHandler<P> = (
+  request: NextRequest,
+  context: { params: Promise<P> }
+) => Promise<Response>;
+
+interface RequestOptions<P> {
+  method?: string;
+  params?: P;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A browser session calling route handlers directly: it sends its cookies
+ * with each request and keeps the ones the responses set
+ */
+export class TestSession {
+  readonly cookies = new Map<string, string>();
+
+  /**
+   * Start a server-side session, returning its ID for seeding the token store
+   */
+  signIn(): string {
+    const sessionId = createSessionId();
+    setSessionCookie(
+      { set: (name: string, value: string) => this.cookies.set(name, value) },
+      sessionId
+    );
+    return sessionId;
+  }
+
+  /**
+   * Run server code that reads `cookies()` as this session
+   */
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    currentCookies = this.cookies;
+    return fn();
+  }
+
+  async request<P>(
+    handler: RouteHandler<P>,
+    url: string,
+    { method = "GET", params, body, headers }: RequestOptions<P> = {}
+  ): Promise<Response> {
+    const request = new NextRequest(new URL(url, APP_URL), {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { "content-type": "application/json" }),
+        ...headers,
+        cookie: Array.from(
+          this.cookies,
+          ([name, value]) => `${name}=${value}`
+        ).join("; "),
+      },
+      body:
+        body === undefined || typeof body === "string"
+          ? body
+          : JSON.stringify(body),
+    });
+
+    currentCookies = this.cookies;
+    const response = await handler(request, {
+      params: Promise.resolve(params as P),
+    });
+
+    for (const header of response.headers.getSetCookie()) {
+      const [pair, ...attributes] = header.split(";");
+      const separator = pair.indexOf("=");
+      const name = pair.slice(0, separator).trim();
+      const value = decodeURIComponent(pair.slice(separator + 1).trim());
+      const expired = attributes.some((attribute) => {
+        const [key, option] = attribute.trim().split("=");
+        return (
+          (key.toLowerCase() === "max-age" && Number(option) <= 0) ||
+          (key.toLowerCase() === "expires" && Date.parse(option) <= Date.now())
+        );
+      });
+      if (expired || !value) {
+        this.cookies.delete(name);
+      } else {
+        this.cookies.set(name, value);
+      }
+    }
+    return response;
+  }
+}
@@ -0,0 +1,15 @@
+import { randomBytes } from "node:crypto";
+import { vi } from "vitest";
+
+// Route handlers and lib modules run outside Next here
+vi.mock("server-only", () => ({}));
+vi.mock("next/headers", async () => {
+  const { requestCookies } = await import("./session");
+  return { cookies: async () => requestCookies() };
+});
+vi.mock("next/server", async (importOriginal) => {
+  const { after } = await import("./after");
+  return { ...(await importOriginal<typeof import("next/server")>()), after };
+});
+
+process.env.TOKEN_ENCRYPTION_KEYS ??= `test:${randomBytes(32).toString("base64")}`;